@@ -1,12 +1,16 @@
 /**
  * Memory & Performance Benchmark
  *
- * Run: npx tsx bench/memory.ts
+ * Run: npm run bench
+ * Request dispatch only (old vs precompiled): npm run bench:pipeline
  */
 
+import type { HttpRequest, HttpResponse } from 'uWebSockets.js';
+import { App } from '../src/core/app.js';
 import { Router } from '../src/core/router.js';
 import { ContextPool } from '../src/core/context.js';
-import { executePipeline } from '../src/core/middleware.js';
+import type { Context } from '../src/core/context.js';
+import { executePipeline, executePipelineSync } from '../src/core/middleware.js';
 import type { MiddlewareFn } from '../src/core/middleware.js';
 import { Container } from '../src/core/container.js';
 import { compileSchema } from '../src/core/validation.js';
@@ -154,7 +158,127 @@ async function benchMiddleware(): Promise<void> {
   console.log(`  4-middleware chain (${iterations.toLocaleString()}x): ${elapsed.toFixed(1)}ms (${(elapsed / iterations * 1000000).toFixed(0)}ns/op)`);
 }
 
+/** Do-nothing uWS request/response — both dispatch paths see the same input */
+function fakeRequest(): { res: HttpResponse; req: HttpRequest } {
+  const res = {
+    onAborted: () => res,
+    cork: (fn: () => void) => { fn(); return res; },
+    writeStatus: () => res,
+    writeHeader: () => res,
+    end: () => res,
+    endWithoutBody: () => res,
+  };
+  const req = {
+    getMethod: () => 'get',
+    getUrl: () => '/api/users/42',
+    getQuery: () => '',
+    forEach: (cb: (key: string, value: string) => void) => cb('host', 'localhost'),
+  };
+  return { res: res as unknown as HttpResponse, req: req as unknown as HttpRequest };
+}
+
+/**
+ * App._handleRequest as it was before per-route chains: a fresh async route
+ * closure + noop per request, routing inside it, two nested executePipeline calls
+ */
+function legacyHandleRequest(app: App, res: HttpResponse, req: HttpRequest): Promise<void> {
+  const ctx = app.pool.acquire();
+  ctx.init(res, req);
+  ctx.captureHeaders();
+
+  res.onAborted(() => {
+    ctx.aborted = true;
+  });
+
+  const router = app.router;
+  const globalMiddleware = (app as unknown as { _globalMiddleware: MiddlewareFn[] })._globalMiddleware;
+
+  const routeHandler = async (ctx: Context): Promise<void> => {
+    if (ctx.responded || ctx.aborted) return;
+
+    const route = router.match(ctx.method, ctx.url, ctx.getHeader('host'), undefined);
+    if (!route) return;
+    if (route.params) {
+      ctx.params = route.params;
+    }
+
+    const noop = () => {};
+    if (route.middleware && route.middleware.length > 0) {
+      await executePipeline(ctx, route.middleware, route.fn);
+    } else {
+      await route.fn(ctx, noop);
+    }
+  };
+
+  return executePipeline(ctx, globalMiddleware, routeHandler).then(() => {
+    app.pool.release(ctx);
+  });
+}
+
+/**
+ * Per-request dispatch through a real App: the pre-compilation _handleRequest
+ * reproduced above (old) vs App._handleRequest on listen()'s per-route chains (current)
+ */
+async function benchRequestPipeline(): Promise<void> {
+  console.log('\n--- Request Pipeline Benchmark ---');
+
+  const app = new App({ logging: { enabled: false }, pool: { contextSize: 1 } });
+  app.use((_ctx, next) => next());
+  app.use((_ctx, next) => next());
+  app.get(
+    '/api/users/:id',
+    (ctx, next) => { ctx.state.auth = true; return next(); },
+    (ctx) => ctx.json({ id: ctx.params!.id })
+  );
+
+  const internals = app as unknown as {
+    _compile(): void;
+    _handleRequest(res: HttpResponse, req: HttpRequest): void;
+  };
+  internals._compile();
+  // The current path must run the precompiled chain — never compose per request
+  if (!app.router.match('GET', '/api/users/42')?.chain) {
+    throw new Error('listen() did not precompile the route chain');
+  }
+
+  const { res, req } = fakeRequest();
+  const iterations = 1_000_000;
+  // Small enough that most batches see no scavenge at ~4 KB/op
+  const batch = 100;
+
+  const measure = async (label: string, run: () => unknown): Promise<void> => {
+    if (global.gc) global.gc();
+    const deltas: number[] = [];
+    let elapsed = 0;
+    for (let done = 0; done < iterations; done += batch) {
+      const heapBefore = process.memoryUsage().heapUsed;
+      const start = performance.now();
+      for (let i = 0; i < batch; i++) {
+        const result = run();
+        if (result instanceof Promise) await result;
+      }
+      elapsed += performance.now() - start;
+      deltas.push(process.memoryUsage().heapUsed - heapBefore);
+    }
+    // Median batch — the few batches where a scavenge ran show up as outliers
+    deltas.sort((a, b) => a - b);
+    const bytesPerOp = Math.max(0, deltas[deltas.length >> 1]) / batch;
+    console.log(
+      `  ${label} (${iterations.toLocaleString()}x): ${elapsed.toFixed(1)}ms ` +
+      `(${(elapsed / iterations * 1000000).toFixed(0)}ns/op, ~${bytesPerOp.toFixed(0)} B/op)`
+    );
+  };
+
+  await measure('Old _handleRequest (nested pipelines)', () => legacyHandleRequest(app, res, req));
+  await measure('App._handleRequest (precompiled chain)', () => internals._handleRequest(res, req));
+}
+
 async function main(): Promise<void> {
+  if (process.argv[2] === 'pipeline') {
+    await benchRequestPipeline();
+    return;
+  }
+
   console.log('================================================');
   console.log('  Ultra-light Backend — Performance Benchmark');
   console.log('================================================');
@@ -167,6 +291,7 @@ async function main(): Promise<void> {
   benchContainer();
   benchValidation();
   await benchMiddleware();
+  await benchRequestPipeline();
 
   if (global.gc) {
     global.gc();
@@ -181,4 +306,7 @@ async function main(): Promise<void> {
   console.log('================================================\n');
 }
 
-main().catch(console.error);
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,25 @@
+/**
+ * Body Limit Middleware — per-route override of config.bodyLimit
+ *
+ * Only sets ctx.bodyLimit; readBody()/readRawBody() enforce it and answer 413.
+ */
+
+import type { Context } from '../../core/context.js';
+import type { MiddlewareFn } from '../../core/middleware.js';
+
+/**
+ * @param limit Max request body size in bytes for the routes it guards
+ *
+ * @example
+ * app.post('/avatars', bodyLimit(10 * 1024 * 1024), uploadAvatar);
+ */
+export function bodyLimit(limit: number): MiddlewareFn {
+  if (!(limit >= 0)) {
+    throw new Error(`Invalid body limit: ${limit}`);
+  }
+
+  return function bodyLimitMiddleware(ctx: Context, next: () => Promise<void> | void) {
+    ctx.bodyLimit = limit;
+    return next();
+  };
+}
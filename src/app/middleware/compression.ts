@@ -0,0 +1,25 @@
+/**
+ * Compression Middleware — negotiated gzip / brotli / zstd responses
+ *
+ * Only sets ctx.compression; ctx.json()/send()/stream() negotiate Accept-Encoding
+ * and compress on send. Options are validated once, here.
+ */
+
+import type { Context } from '../../core/context.js';
+import type { MiddlewareFn } from '../../core/middleware.js';
+import { resolveCompression } from '../../core/compression.js';
+import type { CompressionOptions } from '../../core/compression.js';
+
+/**
+ * @example
+ * app.use(compression());
+ * app.get('/export', compression({ encodings: ['gzip'], threshold: 0 }), exportHandler);
+ */
+export function compression(opts: CompressionOptions = {}): MiddlewareFn {
+  const settings = resolveCompression(opts);
+
+  return function compressionMiddleware(ctx: Context, next: () => Promise<void> | void) {
+    ctx.compression = settings;
+    return next();
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * ETag Middleware — per-route override of config.etag
+ *
+ * Only sets ctx.etag; ctx.json()/send() hash the body and answer 304 on a match.
+ */
+
+import type { Context } from '../../core/context.js';
+import type { MiddlewareFn } from '../../core/middleware.js';
+import type { EtagMode } from '../../core/conditional.js';
+
+/**
+ * @param mode 'weak' (default), 'strong', or false to disable for the routes it guards
+ *
+ * @example
+ * app.get('/api/users', etag(), listUsers);
+ */
+export function etag(mode: EtagMode | false = 'weak'): MiddlewareFn {
+  if (mode !== false && mode !== 'weak' && mode !== 'strong') {
+    throw new Error(`Invalid etag mode: ${mode}`);
+  }
+
+  return function etagMiddleware(ctx: Context, next: () => Promise<void> | void) {
+    ctx.etag = mode;
+    return next();
+  };
+}
@@ -7,7 +7,9 @@
  * - Auto content negotiation: decode protobuf requests, encode protobuf responses
  * - Supports both .proto file loading and programmatic schema definition
  * - Route-level helpers: readProto(), sendProto() for explicit control
- * - Falls back to JSON when Accept header doesn't request protobuf
+ * - Protobuf when Accept names it with at least JSON's q — JSON only wins on a higher q,
+ *   and a bare wildcard (or no Accept) stays JSON
+ * - Content-Type parameters ignored — "application/x-protobuf; charset=..." still matches
  *
  * Content types supported:
  *   application/x-protobuf
@@ -19,7 +21,8 @@
 
 import protobuf from 'protobufjs';
 import type { Context } from '../../core/context.js';
-import type { MiddlewareFn } from '../../core/middleware.js';
+import type { StateMiddleware } from '../../core/middleware.js';
+import { mediaType } from '../../core/body.js';
 
 // =================== CONSTANTS ===================
 
@@ -29,6 +32,8 @@ const PROTO_CONTENT_TYPES = new Set([
   'application/vnd.google.protobuf',
 ]);
 
+const PROTO_TYPE_LIST = [...PROTO_CONTENT_TYPES];
+
 const DEFAULT_CONTENT_TYPE = 'application/x-protobuf';
 
 // =================== PROTO REGISTRY ===================
@@ -241,6 +246,18 @@ export interface ProtobufMiddlewareOptions {
   contentType?: string;
 }
 
+/** ctx.state set by protobufMiddleware() */
+export interface ProtoState {
+  isProtobuf: boolean;
+  acceptsProtobuf: boolean;
+  protoRegistry: ProtoRegistry;
+  protoContentType: string;
+  /** Decoded request body — only for routes listed in requestTypes */
+  protoBody?: unknown;
+  /** Response message type — only for routes listed in responseTypes */
+  protoResponseType?: string;
+}
+
 // =================== MIDDLEWARE FACTORY ===================
 
 /**
@@ -252,13 +269,13 @@ export interface ProtobufMiddlewareOptions {
  *   3. Decodes the protobuf into ctx.state.protoBody
  *   4. Sets ctx.state.isProtobuf = true
  *
- * When the client sends Accept: application/x-protobuf:
+ * When the client's Accept names protobuf and doesn't rank JSON higher:
  *   1. Sets ctx.state.acceptsProtobuf = true
  *   2. Handlers can use sendProto() to respond in protobuf format
  *
  * Zero overhead for JSON requests — just a string check on content-type.
  */
-export function protobufMiddleware(opts: ProtobufMiddlewareOptions): MiddlewareFn {
+export function protobufMiddleware(opts: ProtobufMiddlewareOptions): StateMiddleware<ProtoState> {
   const { registry } = opts;
   const contentType = opts.contentType || DEFAULT_CONTENT_TYPE;
 
@@ -267,13 +284,10 @@ export function protobufMiddleware(opts: ProtobufMiddlewareOptions): MiddlewareF
   const responseTypes = normalizeTypeMap(opts.responseTypes);
 
   return async function protoMw(ctx: Context, next: () => Promise<void> | void): Promise<void> {
-    const reqContentType = ctx.getHeader('content-type') || '';
-    const acceptHeader = ctx.getHeader('accept') || '';
-
     // Check if request body is protobuf
-    const isProtoRequest = PROTO_CONTENT_TYPES.has(reqContentType);
-    // Check if client accepts protobuf responses
-    const acceptsProto = PROTO_CONTENT_TYPES.has(acceptHeader) || acceptHeader.includes('x-protobuf');
+    const isProtoRequest = isProtobufRequest(ctx);
+    // Check if client prefers protobuf responses
+    const acceptsProto = acceptsProtobuf(ctx);
 
     ctx.state.isProtobuf = isProtoRequest;
     ctx.state.acceptsProtobuf = acceptsProto;
@@ -374,7 +388,7 @@ export function sendProto(
 /**
  * Send a response that auto-negotiates between protobuf and JSON.
  *
- * If the client sent Accept: application/x-protobuf, responds with protobuf.
+ * If the client's Accept names protobuf and doesn't rank JSON higher, responds with protobuf.
  * Otherwise, responds with JSON.
  *
  * @example
@@ -402,23 +416,24 @@ export function sendNegotiated(
 /**
  * Create a route-level middleware that decodes a specific protobuf message type.
  *
- * Decoded body is stored in ctx.state.protoBody
+ * Decoded body is stored in ctx.state.protoBody, typed as T
  *
  * @example
  * ```ts
  * app.post('/api/users',
- *   decodeProto(registry, 'CreateUserRequest'),
+ *   decodeProto<CreateUserRequest>(registry, 'CreateUserRequest'),
  *   async (ctx) => {
- *     const body = ctx.state.protoBody as CreateUserRequest;
+ *     const body = ctx.state.protoBody; // CreateUserRequest | undefined
  *   }
  * );
  * ```
  */
-export function decodeProto(registry: ProtoRegistry, typeName: string): MiddlewareFn {
+export function decodeProto<T = Record<string, unknown>>(
+  registry: ProtoRegistry,
+  typeName: string
+): StateMiddleware<{ protoBody?: T; isProtobuf?: boolean }> {
   return async function decodeProtoMiddleware(ctx: Context, next: () => Promise<void> | void): Promise<void> {
-    const contentType = ctx.getHeader('content-type') || '';
-
-    if (PROTO_CONTENT_TYPES.has(contentType)) {
+    if (isProtobufRequest(ctx)) {
       const raw = await ctx.readRawBody();
       if (raw && raw.length > 0) {
         try {
@@ -444,19 +459,24 @@ export function decodeProto(registry: ProtoRegistry, typeName: string): Middlewa
 // =================== UTILITIES ===================
 
 /**
- * Check if a request Content-Type is protobuf.
+ * Check if a request Content-Type is protobuf (parameters ignored).
  */
 export function isProtobufRequest(ctx: Context): boolean {
-  const ct = ctx.getHeader('content-type') || '';
-  return PROTO_CONTENT_TYPES.has(ct);
+  return PROTO_CONTENT_TYPES.has(mediaType(ctx.getHeader('content-type')));
 }
 
 /**
- * Check if a client accepts protobuf responses.
+ * Check if a client wants protobuf — named in Accept, and JSON not at a higher q.
+ * Ties go to protobuf; "*\/*" alone or a missing Accept stays JSON.
  */
 export function acceptsProtobuf(ctx: Context): boolean {
-  const accept = ctx.getHeader('accept') || '';
-  return PROTO_CONTENT_TYPES.has(accept) || accept.includes('x-protobuf');
+  const accept = ctx.getHeader('accept')?.toLowerCase();
+  if (!accept) return false;
+  // Only protobuf types the client named — wildcards alone never pick protobuf
+  const named = PROTO_TYPE_LIST.filter((type) => accept.includes(type));
+  if (named.length === 0) return false;
+  const best = ctx.accepts(...named, 'application/json');
+  return best !== false && best !== 'application/json';
 }
 
 function normalizeTypeMap(
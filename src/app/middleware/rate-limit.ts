@@ -37,7 +37,8 @@ export function rateLimit(opts: RateLimitOptions = {}): MiddlewareFn {
   }
 
   return function rateLimitMiddleware(ctx: Context, next: () => Promise<void> | void) {
-    const ip = ctx.getHeader('x-forwarded-for') || 'unknown';
+    // Forwarded addresses only count through trusted proxies (config.trustProxy)
+    const ip = ctx.ip || 'unknown';
     const now = Date.now();
 
     let entry = store.get(ip);
@@ -3,7 +3,7 @@
  */
 
 import type { Context } from '../../core/context.js';
-import type { MiddlewareFn } from '../../core/middleware.js';
+import type { StateMiddleware } from '../../core/middleware.js';
 
 let _counter = 0;
 const _prefix = Math.random().toString(36).substring(2, 8);
@@ -16,7 +16,7 @@ export interface RequestIdOptions {
   header?: string;
 }
 
-export function requestId(opts: RequestIdOptions = {}): MiddlewareFn {
+export function requestId(opts: RequestIdOptions = {}): StateMiddleware<{ requestId: string }> {
   const headerName = opts.header || 'x-request-id';
 
   return function requestIdMiddleware(ctx: Context, next: () => Promise<void> | void) {
@@ -0,0 +1,304 @@
+/**
+ * Static File Middleware — files streamed from disk through ctx.stream()
+ *
+ * Design decisions:
+ * - Files opened first, then fstat'ed — no stat/open race
+ * - Strong ETag from size + mtime; If-None-Match / If-Modified-Since answer 304
+ * - Single byte ranges only — multi-range requests get the whole file (200)
+ * - Precompressed .br/.gz siblings served when accepted and no Range is asked for
+ * - Paths resolved against root and rejected (403) if they escape it; dotfiles hidden
+ * - Misses fall through to next() — the router's 404 stays in charge
+ */
+
+import { open } from 'node:fs/promises';
+import type { FileHandle } from 'node:fs/promises';
+import type { Stats } from 'node:fs';
+import { extname, resolve, sep } from 'node:path';
+import type { Context } from '../../core/context.js';
+import type { MiddlewareFn } from '../../core/middleware.js';
+import { badRequest, forbidden } from '../../core/errors.js';
+import { isFresh } from '../../core/conditional.js';
+import { acceptedEncodings } from '../../core/negotiation.js';
+
+export interface CacheControlRule {
+  /** Tested against the request path relative to the prefix — "/assets/app.3f2a.js" */
+  match: RegExp;
+  value: string;
+}
+
+export interface ServeStaticOptions {
+  /** URL prefix the files are served under (default: "/") */
+  prefix?: string;
+  /** Files tried for a directory request — false disables (default: ["index.html"]) */
+  index?: string[] | false;
+  /** File served for unmatched HTML navigations — SPA history fallback (default: none) */
+  fallback?: string;
+  /** Serve "file.br" / "file.gz" when the client accepts them (default: false) */
+  precompressed?: boolean;
+  /** A Cache-Control value for every file, or rules — first match wins (default: "public, max-age=0") */
+  cacheControl?: string | CacheControlRule[];
+  /** Send ETag / honor If-None-Match (default: true) */
+  etag?: boolean;
+  /** Send Last-Modified / honor If-Modified-Since (default: true) */
+  lastModified?: boolean;
+  /** Serve files and directories starting with "." (default: false) */
+  dotfiles?: boolean;
+}
+
+const DEFAULT_CACHE_CONTROL = 'public, max-age=0';
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.json': 'application/json',
+  '.map': 'application/json',
+  '.webmanifest': 'application/manifest+json',
+  '.txt': 'text/plain; charset=utf-8',
+  '.md': 'text/markdown; charset=utf-8',
+  '.csv': 'text/csv; charset=utf-8',
+  '.xml': 'application/xml',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.wasm': 'application/wasm',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.mp3': 'audio/mpeg',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+};
+
+/** Precompressed sibling suffixes, in server preference order for q-value ties */
+const ENCODING_SUFFIXES: Record<string, string> = {
+  br: '.br',
+  gzip: '.gz',
+};
+const ENCODINGS = Object.keys(ENCODING_SUFFIXES);
+
+const STREAM_CHUNK_SIZE = 64 * 1024;
+
+interface OpenFile {
+  handle: FileHandle;
+  stats: Stats;
+}
+
+/** Open a regular file — null if missing, a directory or unreadable */
+async function openFile(path: string): Promise<OpenFile | null> {
+  let handle: FileHandle;
+  try {
+    handle = await open(path, 'r');
+  } catch {
+    return null;
+  }
+  let keep = false;
+  try {
+    const stats = await handle.stat();
+    keep = stats.isFile();
+    return keep ? { handle, stats } : null;
+  } finally {
+    if (!keep) await handle.close();
+  }
+}
+
+/**
+ * Parse a single "bytes=start-end" range
+ * Returns null to serve the whole file, false when unsatisfiable
+ */
+function parseRange(header: string, size: number): { start: number; end: number } | null | false {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return null; // Multiple or unknown ranges — send everything
+  const [, from, to] = match;
+
+  let start: number;
+  let end: number;
+  if (from === '') {
+    if (to === '') return null;
+    start = Math.max(size - parseInt(to, 10), 0); // Suffix range — last N bytes
+    end = size - 1;
+  } else {
+    start = parseInt(from, 10);
+    end = to === '' ? size - 1 : Math.min(parseInt(to, 10), size - 1);
+  }
+
+  if (start >= size || start > end) return false;
+  return { start, end };
+}
+
+/**
+ * @param root Directory to serve from
+ *
+ * @example
+ * app.use(serveStatic('public', {
+ *   fallback: 'index.html',
+ *   precompressed: true,
+ *   cacheControl: [
+ *     { match: /^\/assets\//, value: 'public, max-age=31536000, immutable' },
+ *     { match: /\.html$/, value: 'no-cache' },
+ *   ],
+ * }));
+ */
+export function serveStatic(root: string, opts: ServeStaticOptions = {}): MiddlewareFn {
+  const rootDir = resolve(root);
+  const prefix = opts.prefix ? opts.prefix.replace(/\/+$/, '') : '';
+  const index = opts.index === false ? [] : opts.index || ['index.html'];
+  const fallback = opts.fallback ? '/' + opts.fallback.replace(/^\/+/, '') : null;
+  const precompressed = opts.precompressed ?? false;
+  const useEtag = opts.etag ?? true;
+  const useLastModified = opts.lastModified ?? true;
+  const dotfiles = opts.dotfiles ?? false;
+  const cacheRules = typeof opts.cacheControl === 'object' ? opts.cacheControl : null;
+  const cacheControl = typeof opts.cacheControl === 'string' ? opts.cacheControl : DEFAULT_CACHE_CONTROL;
+
+  function cacheControlFor(relPath: string): string {
+    if (cacheRules) {
+      for (const rule of cacheRules) {
+        if (rule.match.test(relPath)) return rule.value;
+      }
+    }
+    return cacheControl;
+  }
+
+  /** Map a request path onto the file system — throws 400/403 */
+  function toFilePath(relPath: string): string | null {
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(relPath);
+    } catch {
+      throw badRequest('Malformed URL encoding in path', 'MALFORMED_URI');
+    }
+    if (decoded.indexOf('\0') !== -1) throw badRequest('Invalid path', 'INVALID_PATH');
+
+    const filePath = resolve(rootDir, '.' + decoded);
+    if (filePath !== rootDir && !filePath.startsWith(rootDir + sep)) {
+      throw forbidden('Path outside of static root', 'PATH_TRAVERSAL');
+    }
+    if (!dotfiles && filePath.substring(rootDir.length).split(sep).some((s) => s.charCodeAt(0) === 46 /* '.' */)) {
+      return null;
+    }
+    return filePath;
+  }
+
+  /** Find the file for a request path — index files for directories */
+  async function lookup(relPath: string): Promise<{ file: OpenFile; path: string; relPath: string } | 'redirect' | null> {
+    const filePath = toFilePath(relPath);
+    if (filePath === null) return null;
+
+    const file = await openFile(filePath);
+    if (file) return { file, path: filePath, relPath };
+
+    for (const name of index) {
+      const indexFile = await openFile(resolve(filePath, name));
+      if (!indexFile) continue;
+      if (!relPath.endsWith('/')) {
+        // "/docs" → "/docs/" so relative links inside index.html resolve
+        await indexFile.handle.close();
+        return 'redirect';
+      }
+      return { file: indexFile, path: resolve(filePath, name), relPath: relPath + name };
+    }
+    return null;
+  }
+
+  return async function serveStaticMiddleware(ctx: Context, next: () => Promise<void> | void) {
+    if (ctx.method !== 'GET' && ctx.method !== 'HEAD') return next();
+    if (prefix && ctx.path !== prefix && !ctx.path.startsWith(prefix + '/')) return next();
+
+    const relPath = ctx.path.substring(prefix.length) || '/';
+    let found = await lookup(relPath);
+
+    if (found === 'redirect') {
+      const query = ctx.querystring;
+      ctx.redirect(ctx.path + '/' + (query ? '?' + query : ''), 301);
+      return;
+    }
+    if (!found && fallback && (ctx.getHeader('accept') || '').includes('text/html')) {
+      found = await lookup(fallback);
+    }
+    if (!found || found === 'redirect') return next();
+
+    let { file } = found;
+    const contentType = MIME_TYPES[extname(found.path).toLowerCase()] || 'application/octet-stream';
+    const rangeHeader = ctx.getHeader('range');
+
+    if (precompressed) ctx.vary('Accept-Encoding');
+    const acceptEncoding = ctx.getHeader('accept-encoding');
+    if (precompressed && !rangeHeader && acceptEncoding) {
+      // Client q-values first, server order on ties — the plain file when none is on disk
+      for (const encoding of acceptedEncodings(acceptEncoding, ENCODINGS)) {
+        const variant = await openFile(found.path + ENCODING_SUFFIXES[encoding]);
+        if (!variant) continue;
+        await file.handle.close();
+        file = variant;
+        ctx.setHeader('Content-Encoding', encoding);
+        break;
+      }
+    }
+
+    const { handle, stats } = file;
+    try {
+      const etag = `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+      const lastModified = new Date(Math.floor(stats.mtimeMs / 1000) * 1000);
+
+      ctx.setHeader('Cache-Control', cacheControlFor(found.relPath));
+      ctx.setHeader('Accept-Ranges', 'bytes');
+      if (useEtag) ctx.setHeader('ETag', etag);
+      if (useLastModified) ctx.setHeader('Last-Modified', lastModified.toUTCString());
+
+      const ifNoneMatch = useEtag ? ctx.getHeader('if-none-match') : undefined;
+      const ifModifiedSince = useLastModified ? ctx.getHeader('if-modified-since') : undefined;
+      if (isFresh(ifNoneMatch, ifModifiedSince, etag, lastModified)) {
+        ctx.empty(304);
+        return;
+      }
+
+      let start = 0;
+      let end = stats.size - 1;
+      let status = 200;
+
+      const ifRange = ctx.getHeader('if-range');
+      const rangeValid =
+        ifRange === undefined || ifRange === etag || ifRange === lastModified.toUTCString();
+      if (rangeHeader && rangeValid && stats.size > 0) {
+        const range = parseRange(rangeHeader, stats.size);
+        if (range === false) {
+          ctx.setHeader('Content-Range', `bytes */${stats.size}`);
+          ctx.empty(416);
+          return;
+        }
+        if (range) {
+          start = range.start;
+          end = range.end;
+          status = 206;
+          ctx.setHeader('Content-Range', `bytes ${start}-${end}/${stats.size}`);
+        }
+      }
+
+      const length = end - start + 1;
+      if (length === 0) {
+        await ctx.stream([], contentType, status, 0);
+        return;
+      }
+
+      const body = handle.createReadStream({ start, end, autoClose: false, highWaterMark: STREAM_CHUNK_SIZE });
+      try {
+        await ctx.stream(body, contentType, status, length);
+      } finally {
+        body.destroy();
+      }
+    } finally {
+      await handle.close();
+    }
+  };
+}
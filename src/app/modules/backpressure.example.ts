@@ -207,7 +207,7 @@ export function backpressureExamples(app: App): void {
    * Example 7: Stream with error handling and cleanup
    */
   app.get('/api/download/:id', async (ctx) => {
-    const { id } = ctx.params!;
+    const id = String(ctx.params!.id);
     let fileHandle: any = null;
 
     try {
@@ -2,12 +2,18 @@
  * Health Check Module
  *
  * Provides /health, /ready, and /stats endpoints
+ * Optional /debug/routes — route table dump for deploy verification
  * Function-based module — no decorators, no scanning
  */
 
 import type { App } from '../../core/app.js';
 
-export function healthModule(app: App): void {
+export interface HealthModuleConfig {
+  /** Expose GET /debug/routes (default: false — don't leak the route table in production) */
+  debugRoutes?: boolean;
+}
+
+export function healthModule(app: App, config: HealthModuleConfig = {}): void {
   // Liveness probe
   app.get('/health', (ctx) => {
     ctx.json({ status: 'ok', timestamp: Date.now() });
@@ -39,4 +45,12 @@ export function healthModule(app: App): void {
   app.get('/stats', (ctx) => {
     ctx.json(app.stats());
   });
+
+  // Route table dump
+  if (config.debugRoutes) {
+    app.get('/debug/routes', (ctx) => {
+      const routes = app.router.routes();
+      ctx.json({ total: routes.length, routes });
+    });
+  }
 }
@@ -77,7 +77,7 @@ export async function protoUsersModule(app: App, registry: ProtoRegistry): Promi
   // Responds in protobuf or JSON based on Accept header
 
   app.get('/proto/users/:id', (ctx) => {
-    const user = store.get(ctx.params!.id);
+    const user = store.get(String(ctx.params!.id));
     if (!user) {
       ctx.json({ error: 'User not found', statusCode: 404 }, 404);
       return;
@@ -92,13 +92,13 @@ export async function protoUsersModule(app: App, registry: ProtoRegistry): Promi
 
   app.post(
     '/proto/users',
-    decodeProto(registry, 'app.CreateUserRequest'),
+    decodeProto<Omit<User, 'id'>>(registry, 'app.CreateUserRequest'),
     async (ctx) => {
       let userData: Omit<User, 'id'>;
 
-      if (isProtobufRequest(ctx)) {
+      if (isProtobufRequest(ctx) && ctx.state.protoBody) {
         // Decoded by decodeProto middleware
-        userData = ctx.state.protoBody as Omit<User, 'id'>;
+        userData = ctx.state.protoBody;
       } else {
         // Regular JSON body
         userData = ctx.body as Omit<User, 'id'>;
@@ -115,7 +115,7 @@ export async function protoUsersModule(app: App, registry: ProtoRegistry): Promi
   // Always responds in protobuf (for dedicated protobuf clients)
 
   app.get('/proto/users/:id/binary', (ctx) => {
-    const user = store.get(ctx.params!.id);
+    const user = store.get(String(ctx.params!.id));
     if (!user) {
       ctx.json({ error: 'User not found', statusCode: 404 }, 404);
       return;
@@ -3,6 +3,8 @@
  *
  * Demonstrates:
  * - Route registration, body parsing, params, query, validation, DI, route middleware
+ * - Route groups — mountable under any prefix
+ * - Named routes — Location header built with app.url()
  * Function-based — explicit, no magic
  */
 
@@ -75,46 +77,55 @@ class InMemoryUserStore {
   }
 }
 
-export function usersModule(app: App): void {
+export interface UsersModuleConfig {
+  /** Mount point for the user routes (default: /api/users) */
+  prefix?: string;
+}
+
+export function usersModule(app: App, config: UsersModuleConfig = {}): void {
+  const prefix = config.prefix || '/api/users';
   const store = new InMemoryUserStore();
   app.container.set('userStore', store);
 
-  // GET /api/users
-  app.get('/api/users', (ctx) => {
-    const { limit, offset } = ctx.query;
-    const users = store.list(
-      limit ? parseInt(limit, 10) : 20,
-      offset ? parseInt(offset, 10) : 0
-    );
-    ctx.json({ data: users, total: store.count() });
-  });
-
-  // GET /api/users/:id
-  app.get('/api/users/:id', (ctx) => {
-    const user = store.getById(ctx.params!.id);
-    if (!user) throw notFound('User not found');
-    ctx.json({ data: user });
-  });
-
-  // POST /api/users (with validation)
-  app.post('/api/users', validateBody(createUserSchema), async (ctx) => {
-    const body = (await ctx.readBody()) as Omit<User, 'id'>;
-    const user = store.create(body);
-    ctx.json({ data: user }, 201);
-  });
-
-  // PUT /api/users/:id
-  app.put('/api/users/:id', validateBody(updateUserSchema), async (ctx) => {
-    const body = (await ctx.readBody()) as Partial<Omit<User, 'id'>>;
-    const user = store.update(ctx.params!.id, body);
-    if (!user) throw notFound('User not found');
-    ctx.json({ data: user });
-  });
-
-  // DELETE /api/users/:id
-  app.delete('/api/users/:id', (ctx) => {
-    const deleted = store.delete(ctx.params!.id);
-    if (!deleted) throw notFound('User not found');
-    ctx.empty(204);
+  app.group(prefix, (users) => {
+    // GET /api/users
+    users.get('/', (ctx) => {
+      const { limit, offset } = ctx.query;
+      const list = store.list(
+        typeof limit === 'string' ? parseInt(limit, 10) : 20,
+        typeof offset === 'string' ? parseInt(offset, 10) : 0
+      );
+      ctx.json({ data: list, total: store.count() });
+    }).as('users.list');
+
+    // GET /api/users/:id<int>
+    users.get('/:id<int>', (ctx) => {
+      const user = store.getById(String(ctx.params!.id));
+      if (!user) throw notFound('User not found');
+      ctx.json({ data: user });
+    }).as('users.show');
+
+    // POST /api/users (with validation)
+    users.post('/', validateBody(createUserSchema), async (ctx) => {
+      const body = (await ctx.readBody()) as Omit<User, 'id'>;
+      const user = store.create(body);
+      ctx.setHeader('Location', app.url('users.show', { id: user.id }));
+      ctx.json({ data: user }, 201);
+    });
+
+    // PUT /api/users/:id<int>
+    users.put('/:id<int>', validateBody(updateUserSchema), async (ctx) => {
+      const body = (await ctx.readBody()) as Partial<Omit<User, 'id'>>;
+      const user = store.update(String(ctx.params!.id), body);
+      if (!user) throw notFound('User not found');
+      ctx.json({ data: user });
+    });
+
+    // DELETE /api/users/:id<int>
+    users.delete('/:id<int>', (ctx) => {
+      const deleted = store.delete(String(ctx.params!.id));
+      if (!deleted) throw notFound('User not found');
+      ctx.empty(204);
+    });
   });
 }
@@ -77,7 +77,7 @@ app.use(protobufMiddleware({
 
 // =================== REGISTER MODULES ===================
 
-healthModule(app);
+healthModule(app, { debugRoutes: process.env.NODE_ENV !== 'production' });
 usersModule(app);
 websocketModule(app, { maxPayloadLength: 64 * 1024 });
 protoUsersModule(app, protoRegistry);
@@ -113,6 +113,9 @@ try {
   console.log(`  💚 Health:    http://localhost:${app.config.port}/health`);
   console.log(`  📊 Stats:     http://localhost:${app.config.port}/stats`);
   console.log(`  📦 Memory:    ${(process.memoryUsage().rss / 1024 / 1024).toFixed(1)} MB RSS\n`);
+  if (process.env.NODE_ENV !== 'production') {
+    console.log(app.printRoutes() + '\n');
+  }
 } catch (err) {
   console.error('Failed to start server:', (err as Error).message);
   process.exit(1);
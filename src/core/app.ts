@@ -7,22 +7,41 @@
  * - Single App class orchestrates all components
  * - Routes registered at startup, precompiled into radix tree
  * - Context pooled and reused across requests
- * - Middleware pipeline precomposed at startup
+ * - Middleware pipeline precomposed at startup — one flat chain per route
  * - Lifecycle hooks for startup/shutdown/connection
  * - WebSocket support via uWS native API
  * - No magic — explicit registration only
+ * - app.use() returns the app retyped with the state its middleware declares
  *
  * Total core code: ~250 LOC
  * Memory overhead: ~5KB for App instance
  */
 
 import uWS from 'uWebSockets.js';
-import { Router } from './router.js';
-import type { Handler } from './router.js';
+import { Router, canonicalPath } from './router.js';
+import type {
+  Handler,
+  PathParams,
+  RouteHandlers,
+  RouteInfo,
+  RouteMatch,
+  RouteMeta,
+  RouteOptions,
+  RouteVersion,
+  UrlParams,
+  UrlQuery,
+} from './router.js';
+import { RouteGroup, joinPath } from './group.js';
+import type { GroupArgs, GroupFn, RouteRegistrar } from './group.js';
 import { Context, ContextPool } from './context.js';
-import { executePipeline, composeMiddleware } from './middleware.js';
-import type { MiddlewareFn } from './middleware.js';
+import type { DefaultState } from './context.js';
+import { executePipeline, executePipelineSync, composeMiddleware } from './middleware.js';
+import type { AddedState, MiddlewareFn, StateOf } from './middleware.js';
 import { Container } from './container.js';
+import { BodyParserRegistry } from './body.js';
+import type { BodyParser } from './body.js';
+import { compileTrust } from './proxy.js';
+import type { TrustFn } from './proxy.js';
 import { createLogger, noopLogger } from './logger.js';
 import type { ILogger } from './logger.js';
 import { loadConfig } from './config.js';
@@ -56,7 +75,66 @@ export interface AppStats {
   uptime: number;
 }
 
-export class App {
+/** Link from a mounted child to its parent — route changes on the child are forwarded */
+interface MountLink {
+  add: RouteRegistrar;
+  replace: RouteRegistrar;
+  remove: (method: string, path: string, options: RouteOptions) => void;
+}
+
+type Registration = { method: string; path: string; handlers: Handler[]; options: RouteOptions };
+
+/** Same method, path, host and version — "v2" and "2" are the same version */
+function isRegistration(route: Registration, method: string, path: string, options: RouteOptions): boolean {
+  if (route.method !== method || route.path !== path) return false;
+  if ((route.options.host || '').toLowerCase() !== (options.host || '').toLowerCase()) return false;
+  if (!options.version) return true;
+  const version = (spec: RouteVersion): string => spec.version.replace(/^v/i, '');
+  return !!route.options.version && version(route.options.version) === version(options.version);
+}
+
+interface RouteTreeNode {
+  children: Map<string, RouteTreeNode>;
+  methods: string[];
+}
+
+function renderRouteTree(routes: RouteInfo[]): string {
+  const root: RouteTreeNode = { children: new Map(), methods: [] };
+
+  for (const route of routes) {
+    let node = root;
+    const segments = route.path.split('/');
+    if (route.host) segments.unshift(`(host ${route.host})`);
+    for (const seg of segments) {
+      if (!seg) continue;
+      let child = node.children.get(seg);
+      if (!child) {
+        child = { children: new Map(), methods: [] };
+        node.children.set(seg, child);
+      }
+      node = child;
+    }
+    node.methods.push(route.method);
+  }
+
+  const label = (seg: string, node: RouteTreeNode): string =>
+    node.methods.length > 0 ? `${seg}  [${node.methods.join(', ')}]` : seg;
+
+  const lines = [label('/', root)];
+  const walk = (node: RouteTreeNode, indent: string): void => {
+    let i = 0;
+    for (const [seg, child] of node.children) {
+      const last = ++i === node.children.size;
+      lines.push(`${indent}${last ? '└── ' : '├── '}${label(seg, child)}`);
+      walk(child, indent + (last ? '    ' : '│   '));
+    }
+  };
+  walk(root, '');
+
+  return lines.join('\n');
+}
+
+export class App<State extends DefaultState = DefaultState> {
   static readonly DEFAULT_CONTEXT_SIZE = 64;
 
   readonly config: Readonly<AppConfig>;
@@ -64,6 +142,10 @@ export class App {
   readonly container: Container;
   readonly logger: ILogger;
   readonly pool: ContextPool;
+  /** Parsers used by ctx.readBody() — see bodyParser() */
+  readonly bodyParsers: BodyParserRegistry = new BodyParserRegistry();
+  /** config.trustProxy compiled — consulted by ctx.ip / ips / protocol / hostname */
+  readonly trustProxy: TrustFn;
 
   private _globalMiddleware: MiddlewareFn[] = [];
   private _onStartup: LifecycleHook[] = [];
@@ -74,11 +156,46 @@ export class App {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private _wsBehaviors = new Map<string, WebSocketBehavior<any>>();
   private _routeCount = 0;
+  /** Registrations as given — replayed into a parent on mount() */
+  private _registered: Registration[] = [];
+  /** Parents this app is mounted on — later route changes are forwarded */
+  private _mounts: MountLink[] = [];
+  /** Apps mounted on this one — searched by url() for names not found here */
+  private _children: { prefix: string; app: App }[] = [];
+  private _lastPath: string | null = null;
+  /** Route registration callback handed to groups */
+  private _registrar: RouteRegistrar = (method, path, handlers, options) => {
+    this._route(method, path, handlers, options);
+  };
+  /** Global middleware + unmatched handler — composed by listen() */
+  private _unmatchedChain: MiddlewareFn[] | null = null;
+  /** Global middleware + canonical path redirect — composed by listen() */
+  private _redirectChain: MiddlewareFn[] | null = null;
+  /** Set once a versioned route exists — version headers are only read after that */
+  private _versioned = false;
+  /** "application/vnd.<vendor>.v" — null when media type versioning is off */
+  private _vendorPrefix: string | null = null;
+  /** Request headers a versioned route's response depends on — sent as Vary */
+  private _versionVary: string[] = [];
 
   constructor(configOverrides: ConfigOverrides = {}) {
     this.config = loadConfig(configOverrides);
-
-    this.router = new Router();
+    this.trustProxy = compileTrust(this.config.trustProxy);
+
+    this.router = new Router({
+      defaultVersion: this.config.versioning.default,
+      versionPath: this.config.versioning.path,
+      trailingSlash: this.config.routing.trailingSlash,
+      caseSensitive: this.config.routing.caseSensitive,
+      decodeParams: this.config.routing.decodeParams,
+    });
+    if (this.config.versioning.header) {
+      this._versionVary.push(this.config.versioning.header);
+    }
+    if (this.config.versioning.vendor) {
+      this._vendorPrefix = `application/vnd.${this.config.versioning.vendor}.v`;
+      this._versionVary.push('Accept');
+    }
     this.container = new Container();
     this.logger = this.config.logging.enabled
       ? createLogger({
@@ -93,54 +210,370 @@ export class App {
 
   // =================== MIDDLEWARE ===================
 
-  use(middleware: MiddlewareFn): this {
-    this._globalMiddleware.push(middleware);
+  /**
+   * Add global middleware — returns the app typed with the state it declares
+   * Runs after routing: rewriting ctx.path / ctx.url here does not change the matched route
+   *
+   * @example
+   * const app = new App().use(auth({ verify: findUser }));
+   * app.get('/me', (ctx) => ctx.json(ctx.state.user)); // typed by verify's return
+   */
+  use<M extends MiddlewareFn<State>>(middleware: M): App<State & StateOf<M>> {
+    this._globalMiddleware.push(middleware as MiddlewareFn);
+    return this as App<State & StateOf<M>>;
+  }
+
+  /**
+   * Register a body parser for a media type — used by ctx.readBody()
+   *
+   * @example
+   * app.bodyParser('application/xml', (raw) => parseXml(raw.toString('utf8')));
+   * app.bodyParser('application/msgpack', (raw) => decode(raw));
+   */
+  bodyParser(type: string, parser: BodyParser): this {
+    this.bodyParsers.register(type, parser);
     return this;
   }
 
   // =================== ROUTE REGISTRATION ===================
 
-  get(path: string, ...handlers: Handler[]): this {
-    return this._route('GET', path, handlers);
+  get<Path extends string, M extends MiddlewareFn<State>[]>(
+    path: Path,
+    ...handlers: RouteHandlers<State, M, PathParams<Path>>
+  ): this {
+    return this._route('GET', path, handlers as Handler[]);
   }
 
-  post(path: string, ...handlers: Handler[]): this {
-    return this._route('POST', path, handlers);
+  post<Path extends string, M extends MiddlewareFn<State>[]>(
+    path: Path,
+    ...handlers: RouteHandlers<State, M, PathParams<Path>>
+  ): this {
+    return this._route('POST', path, handlers as Handler[]);
   }
 
-  put(path: string, ...handlers: Handler[]): this {
-    return this._route('PUT', path, handlers);
+  put<Path extends string, M extends MiddlewareFn<State>[]>(
+    path: Path,
+    ...handlers: RouteHandlers<State, M, PathParams<Path>>
+  ): this {
+    return this._route('PUT', path, handlers as Handler[]);
   }
 
-  patch(path: string, ...handlers: Handler[]): this {
-    return this._route('PATCH', path, handlers);
+  patch<Path extends string, M extends MiddlewareFn<State>[]>(
+    path: Path,
+    ...handlers: RouteHandlers<State, M, PathParams<Path>>
+  ): this {
+    return this._route('PATCH', path, handlers as Handler[]);
   }
 
-  delete(path: string, ...handlers: Handler[]): this {
-    return this._route('DELETE', path, handlers);
+  delete<Path extends string, M extends MiddlewareFn<State>[]>(
+    path: Path,
+    ...handlers: RouteHandlers<State, M, PathParams<Path>>
+  ): this {
+    return this._route('DELETE', path, handlers as Handler[]);
   }
 
-  options(path: string, ...handlers: Handler[]): this {
-    return this._route('OPTIONS', path, handlers);
+  options<Path extends string, M extends MiddlewareFn<State>[]>(
+    path: Path,
+    ...handlers: RouteHandlers<State, M, PathParams<Path>>
+  ): this {
+    return this._route('OPTIONS', path, handlers as Handler[]);
   }
 
-  head(path: string, ...handlers: Handler[]): this {
-    return this._route('HEAD', path, handlers);
+  head<Path extends string, M extends MiddlewareFn<State>[]>(
+    path: Path,
+    ...handlers: RouteHandlers<State, M, PathParams<Path>>
+  ): this {
+    return this._route('HEAD', path, handlers as Handler[]);
   }
 
-  all(path: string, ...handlers: Handler[]): this {
+  all<Path extends string, M extends MiddlewareFn<State>[]>(
+    path: Path,
+    ...handlers: RouteHandlers<State, M, PathParams<Path>>
+  ): this {
     const methods = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'HEAD'];
     for (const method of methods) {
-      this._route(method, path, [...handlers]);
+      this._route(method, path, [...(handlers as Handler[])]);
     }
     return this;
   }
 
-  private _route(method: string, path: string, handlers: Handler[]): this {
-    const handler = handlers.pop()!;
-    const middleware = handlers.length > 0 ? handlers : null;
-    this.router.add(method, path, handler, middleware);
+  /**
+   * Register routes under a shared prefix with scoped middleware
+   *
+   * @example
+   * app.group('/api/v1', auth(opts), (v1) => {
+   *   v1.get('/users', listUsers);
+   *   v1.group('/admin', requireAdmin, (admin) => {
+   *     admin.delete('/users/:id', deleteUser);
+   *   });
+   * });
+   */
+  group<Prefix extends string, M extends MiddlewareFn<State>[]>(prefix: Prefix, ...args: GroupArgs<State, M, Prefix>): this {
+    const fn = args[args.length - 1] as GroupFn<State & AddedState<M>, Prefix>;
+    const middleware = args.slice(0, -1) as MiddlewareFn[];
+    fn(new RouteGroup(prefix, middleware, this._registrar, this.router));
+    return this;
+  }
+
+  /**
+   * Register routes served only for a host pattern — falls back to host-less routes
+   *
+   * Patterns: exact "api.example.com", wildcard "*.example.com" (one label),
+   * or ":tenant.example.com" — captured labels are merged into ctx.params.
+   *
+   * @example
+   * app.host(':tenant.example.com', (site) => {
+   *   site.get('/', (ctx) => ctx.json({ tenant: ctx.params!.tenant }));
+   * });
+   */
+  host<M extends MiddlewareFn<State>[]>(pattern: string, ...args: GroupArgs<State, M, ''>): this {
+    const fn = args[args.length - 1] as GroupFn<State & AddedState<M>, ''>;
+    const middleware = args.slice(0, -1) as MiddlewareFn[];
+    fn(new RouteGroup('', middleware, this._registrar, this.router, { host: pattern }));
+    return this;
+  }
+
+  /**
+   * Register routes for one API version — same paths may exist in other versions
+   *
+   * The version is read from the Accept-Version header, a vendor media type
+   * (Accept: application/vnd.blazy.v2+json) or a /v2 path prefix (see config.versioning).
+   * Requests naming no version get config.versioning.default, else the latest.
+   * Deprecated versions answer with Deprecation / Sunset headers.
+   *
+   * @example
+   * app.version({ version: '1', deprecated: true, sunset: '2027-01-01' }, (v1) => {
+   *   v1.get('/api/users', listUsersV1);
+   * });
+   * app.version('2', (v2) => {
+   *   v2.get('/api/users', listUsersV2);
+   * });
+   */
+  version<M extends MiddlewareFn<State>[]>(version: string | RouteVersion, ...args: GroupArgs<State, M, ''>): this {
+    const fn = args[args.length - 1] as GroupFn<State & AddedState<M>, ''>;
+    const middleware = args.slice(0, -1) as MiddlewareFn[];
+    const spec = typeof version === 'string' ? { version } : version;
+    fn(new RouteGroup('', middleware, this._registrar, this.router, { version: spec }));
+    return this;
+  }
+
+  private _route(method: string, path: string, handlers: Handler[], options: RouteOptions = {}): this {
+    const handler = handlers[handlers.length - 1];
+    const middleware = handlers.length > 1 ? handlers.slice(0, -1) : null;
+    this.router.add(method, path, handler, middleware, options);
     this._routeCount++;
+    this._lastPath = path;
+    if (options.version) this._versioned = true;
+
+    // Only once the router accepted it — a rejected duplicate leaves mounts in sync
+    this._registered.push({ method, path, handlers: [...handlers], options });
+    for (const link of this._mounts) {
+      link.add(method, path, [...handlers], options);
+    }
+    return this;
+  }
+
+  // =================== RUNTIME ROUTE CHANGES ===================
+
+  /**
+   * Unregister a route while running — e.g. when a feature flag turns off
+   *
+   * Pass the path exactly as registered. options.host targets a host-bound
+   * route; options.version removes one version instead of all of them.
+   * Requests already in flight finish normally. Forwarded to parent apps.
+   *
+   * @example
+   * flags.on('beta-search', (enabled) => {
+   *   if (enabled) app.get('/search', searchHandler);
+   *   else app.removeRoute('GET', '/search');
+   * });
+   *
+   * @returns false if no such route is registered
+   */
+  removeRoute(method: string, path: string, options: RouteOptions = {}): boolean {
+    const before = this.router.size;
+    const removed = this.router.remove(method, path, options);
+    this._routeCount -= before - this.router.size;
+
+    if (removed) {
+      this._registered = this._registered.filter((route) => !isRegistration(route, method, path, options));
+      for (const link of this._mounts) link.remove(method, path, options);
+    }
+    return removed;
+  }
+
+  /**
+   * Swap a registered route's middleware + handler while running
+   *
+   * The route keeps its name, metadata and match priority. Requests already
+   * in flight finish on the old chain. Forwarded to parent apps.
+   *
+   * @example
+   * app.replaceRoute('GET', '/search', [rateLimit(opts), searchV2]);
+   *
+   * @throws If no such route is registered
+   */
+  replaceRoute<M extends MiddlewareFn<State>[]>(
+    method: string,
+    path: string,
+    handlers: Handler<State> | RouteHandlers<State, M>,
+    options: RouteOptions = {}
+  ): this {
+    const list = Array.isArray(handlers) ? (handlers as Handler[]) : [handlers as Handler];
+    return this._replaceRoute(method, path, [...list], options);
+  }
+
+  private _replaceRoute(method: string, path: string, list: Handler[], options: RouteOptions): this {
+    const middleware = list.slice(0, -1);
+    this.router.replace(method, path, list[list.length - 1], middleware.length > 0 ? middleware : null, options);
+
+    for (const route of this._registered) {
+      if (isRegistration(route, method, path, options)) route.handlers = [...list];
+    }
+    for (const link of this._mounts) link.replace(method, path, [...list], options);
+    return this;
+  }
+
+  // =================== NAMED ROUTES ===================
+
+  /**
+   * Name the most recently registered route
+   *
+   * @example
+   * app.get('/users/:id', showUser).as('users.show');
+   */
+  as(name: string): this {
+    this.router.name(name, this._requireLast(`name route "${name}"`));
+    return this;
+  }
+
+  /**
+   * Attach metadata to the most recently registered route — shown by routes()
+   *
+   * @example
+   * app.get('/api/users', listUsers).meta({ owner: 'accounts', public: true });
+   */
+  meta(meta: RouteMeta): this {
+    this.router.meta(this._requireLast('attach route metadata'), meta);
+    return this;
+  }
+
+  private _requireLast(action: string): string {
+    if (this._lastPath === null) {
+      throw new Error(`Cannot ${action} — no route registered yet`);
+    }
+    return this._lastPath;
+  }
+
+  /**
+   * Build a URL for a named route — searches mounted apps too
+   *
+   * @example
+   * ctx.setHeader('Location', app.url('users.show', { id: user.id }));
+   */
+  url(name: string, params?: UrlParams, query?: UrlQuery): string {
+    const found = this._findUrl(name, params, query);
+    if (found === null) {
+      throw new Error(`Unknown route name: ${name}`);
+    }
+    return found;
+  }
+
+  private _findUrl(name: string, params?: UrlParams, query?: UrlQuery): string | null {
+    if (this.router.hasName(name)) {
+      return this.router.url(name, params, query);
+    }
+    for (const child of this._children) {
+      const found = child.app._findUrl(name, params, query);
+      if (found !== null) return joinPath(child.prefix, found);
+    }
+    return null;
+  }
+
+  // =================== SUB-APPLICATIONS ===================
+
+  /**
+   * Mount a sub-application under a prefix
+   *
+   * The child's routes are merged into this router at registration time.
+   * Each mounted route runs this app's global middleware, then the child's
+   * global middleware (encapsulated — never applied outside the prefix),
+   * then its own route middleware.
+   *
+   * Scoped to the child chain (child global middleware, route middleware, handler):
+   * - ctx.app is the child — config lookups made there (trustProxy, cookie secrets,
+   *   query options, body parsers) use the child's config; ctx.app is restored
+   *   before this app's middleware resumes after next()
+   * - Errors no child middleware handled are logged and answered by the child
+   *   (its logger), not this app's
+   * - Set at request start from this app's config and not switched: ctx.bodyLimit,
+   *   ctx.etag, and anything parsed before the child chain (query, cookies, ip)
+   *
+   * - Child container and body parsers fall back to this app's for missing keys
+   * - Child lifecycle hooks run with this app's
+   * - Routes added to the child after mounting are forwarded too
+   * - Child route names resolve through this app's url()
+   *
+   * @example
+   * const admin = new App({ logging: { enabled: false }, pool: { contextSize: 0 } });
+   * admin.use(auth({ verify }));
+   * admin.get('/stats', statsHandler);
+   * app.mount('/admin', admin); // GET /admin/stats
+   */
+  mount(prefix: string, child: App): this {
+    if (child === this) {
+      throw new Error('Cannot mount an app on itself');
+    }
+
+    if (!child.container.parent) {
+      child.container.parent = this.container;
+    }
+    if (!child.bodyParsers.parent) {
+      child.bodyParsers.parent = this.bodyParsers;
+    }
+
+    const childMiddleware = child._globalMiddleware;
+    const enter: MiddlewareFn = async function mountedApp(ctx, next) {
+      const parent = ctx.app;
+      ctx.app = child;
+      try {
+        await executePipeline(ctx, childMiddleware, () => next());
+      } catch (err: unknown) {
+        child._handleUncaughtError(ctx, err);
+      } finally {
+        ctx.app = parent;
+      }
+    };
+
+    const register: RouteRegistrar = (method, path, handlers, options) => {
+      this._route(method, joinPath(prefix, path), [enter, ...handlers], options);
+    };
+
+    for (const route of child._registered) {
+      register(route.method, route.path, [...route.handlers], route.options);
+    }
+    child._mounts.push({
+      add: register,
+      replace: (method, path, handlers, options) => {
+        this._replaceRoute(method, joinPath(prefix, path), [enter, ...handlers], options);
+      },
+      remove: (method, path, options) => {
+        this.removeRoute(method, joinPath(prefix, path), options);
+      },
+    });
+    this._children.push({ prefix, app: child });
+
+    for (const [wsPath, behavior] of child._wsBehaviors) {
+      this._wsBehaviors.set(joinPath(prefix, wsPath), behavior);
+    }
+
+    this._onStartup.push(async () => {
+      for (const hook of child._onStartup) await hook(child);
+    });
+    this._onShutdown.push(async () => {
+      for (const hook of child._onShutdown) await hook(child);
+    });
+
     return this;
   }
 
@@ -180,6 +613,7 @@ export class App {
       await hook(this);
     }
 
+    this._compile();
     this._uwsApp = uWS.App();
 
     // Register WebSocket routes
@@ -223,51 +657,59 @@ export class App {
     });
   }
 
+  /**
+   * Precompose every route's pipeline — global + route middleware + handler
+   * Global middleware added after listen() is not picked up
+   */
+  private _compile(): void {
+    this.router.compile(this._globalMiddleware);
+    this._unmatchedChain = composeMiddleware(this._globalMiddleware, null, [this._unmatched]);
+    this._redirectChain = composeMiddleware(this._globalMiddleware, null, [this._redirectCanonical]);
+  }
+
+  /** Final handler for requests no route matched — runs after global middleware */
+  private _unmatched: MiddlewareFn = (ctx) => {
+    this._handleUnmatched(ctx);
+  };
+
+  /**
+   * Final handler for "/users/" style paths under trailingSlash: 'redirect'
+   * 301 for GET/HEAD, 308 otherwise so the method and body are kept
+   */
+  private _redirectCanonical: MiddlewareFn = (ctx) => {
+    const query = ctx.querystring;
+    const location = canonicalPath(ctx.path) + (query ? '?' + query : '');
+    ctx.redirect(location, ctx.method === 'GET' || ctx.method === 'HEAD' ? 301 : 308);
+  };
+
   /**
    * Handle incoming HTTP request — CRITICAL HOT PATH
    *
    * Flow:
    * 1. Acquire context from pool
    * 2. Capture request data (uWS req only valid synchronously)
-   * 3. Run global middleware pipeline
-   * 4. Route match (inside final handler)
-   * 5. Run route-level middleware + handler
-   * 6. Release context back to pool
+   * 3. Route match — HEAD falls back to GET; misses run the unmatched chain (404/405/OPTIONS),
+   *    non-canonical paths the redirect chain; match errors (malformed params → 400,
+   *    unknown version) are thrown from inside a global middleware chain
+   *    Matching happens before global middleware — rewriting ctx.path/url there
+   *    does not change the route
+   * 4. Run the route's precompiled chain (global + route middleware + handler)
+   *    synchronously until something returns a Promise
+   * 5. Release context back to pool
    */
   private _handleRequest(res: uWS.HttpResponse, req: uWS.HttpRequest): void {
     const ctx = this.pool.acquire();
     ctx.init(res, req);
     ctx.captureHeaders();
 
-    res.onAborted(() => {
-      ctx.aborted = true;
-    });
-
-    const router = this.router;
-
-    const routeHandler = async (ctx: Context): Promise<void> => {
-      if (ctx.responded || ctx.aborted) return;
-
-      const route = router.match(ctx.method, ctx.url);
-
-      if (!route) {
-        ctx.json({ error: 'Not Found', statusCode: 404 }, 404);
-        return;
-      }
-
-      if (route.params) {
-        ctx.params = route.params;
-      }
-
-      const noop = () => {};
-      if (route.middleware && route.middleware.length > 0) {
-        await executePipeline(ctx, route.middleware, route.fn);
-      } else {
-        await route.fn(ctx, noop);
-      }
-    };
-
-    const maybePromise = executePipeline(ctx, this._globalMiddleware, routeHandler);
+    let maybePromise: void | Promise<void>;
+    try {
+      maybePromise = executePipelineSync(ctx, this._resolveChain(ctx), null);
+    } catch (err: unknown) {
+      this._handleUncaughtError(ctx, err);
+      this.pool.release(ctx);
+      return;
+    }
 
     if (maybePromise && typeof maybePromise.then === 'function') {
       maybePromise
@@ -283,6 +725,106 @@ export class App {
     }
   }
 
+  /**
+   * Match the request and pick the chain to run — route, redirect or unmatched
+   * Match errors become a global middleware + thrower chain, so CORS, request IDs
+   * and error handlers still wrap the 400
+   */
+  private _resolveChain(ctx: Context): MiddlewareFn[] {
+    const host = ctx.getHeader('host');
+    let route: RouteMatch | null;
+    try {
+      const version = this._versioned ? this._requestVersion(ctx) : undefined;
+      route = this.router.match(ctx.method, ctx.url, host, version);
+
+      // HEAD falls back to the GET handler — Context strips the body
+      if (!route && ctx.method === 'HEAD') {
+        route = this.router.match('GET', ctx.url, host, version);
+      }
+    } catch (err: unknown) {
+      // Rare path — the one closure is only allocated for bad requests
+      return composeMiddleware(this._globalMiddleware, null, [
+        () => {
+          throw err;
+        },
+      ]);
+    }
+
+    if (!route) {
+      return this._unmatchedChain || composeMiddleware(this._globalMiddleware, null, [this._unmatched]);
+    }
+    if (route.redirect) {
+      return this._redirectChain || composeMiddleware(this._globalMiddleware, null, [this._redirectCanonical]);
+    }
+
+    if (route.params) ctx.params = route.params;
+    // Another Accept-Version / vendor Accept could pick another version — keep caches apart
+    if (route.version !== null) {
+      for (const field of this._versionVary) ctx.vary(field);
+    }
+    if (route.deprecation !== null) ctx.setHeader('Deprecation', route.deprecation);
+    if (route.sunset !== null) ctx.setHeader('Sunset', route.sunset);
+    return route.chain || composeMiddleware(this._globalMiddleware, route.middleware, [route.fn]);
+  }
+
+  /**
+   * Read the requested API version — Accept-Version header, then vendor media type
+   * "application/vnd.blazy.v2+json" => "2"
+   */
+  private _requestVersion(ctx: Context): string | undefined {
+    const header = this.config.versioning.header;
+    if (header) {
+      const value = ctx.getHeader(header);
+      if (value) return value.trim();
+    }
+
+    if (this._vendorPrefix) {
+      const accept = ctx.getHeader('accept');
+      if (accept) {
+        const idx = accept.indexOf(this._vendorPrefix);
+        if (idx !== -1) {
+          const start = idx + this._vendorPrefix.length;
+          let end = start;
+          while (end < accept.length) {
+            const ch = accept.charCodeAt(end);
+            if (ch === 43 /* '+' */ || ch === 59 /* ';' */ || ch === 44 /* ',' */ || ch === 32) break;
+            end++;
+          }
+          if (end > start) return accept.substring(start, end);
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Answer a request that matched no route
+   *
+   * - Path unknown under every method → 404
+   * - OPTIONS on a known path → 204 with Allow
+   * - Any other method on a known path → 405 with Allow
+   */
+  private _handleUnmatched(ctx: Context): void {
+    const allowed = this.router.allowedMethods(ctx.url, ctx.getHeader('host'));
+
+    if (allowed.length === 0) {
+      ctx.json({ error: 'Not Found', statusCode: 404 }, 404);
+      return;
+    }
+
+    if (allowed.includes('GET') && !allowed.includes('HEAD')) allowed.push('HEAD');
+    if (!allowed.includes('OPTIONS')) allowed.push('OPTIONS');
+    ctx.setHeader('Allow', allowed.join(', '));
+
+    if (ctx.method === 'OPTIONS') {
+      ctx.empty(204);
+      return;
+    }
+
+    ctx.json({ error: 'Method Not Allowed', statusCode: 405 }, 405);
+  }
+
   private _handleUncaughtError(ctx: Context, err: unknown): void {
     if (ctx.aborted || ctx.responded) return;
 
@@ -339,6 +881,19 @@ export class App {
 
   // =================== DIAGNOSTICS ===================
 
+  /**
+   * Render registered routes as a tree — for startup logs and deploy checks
+   *
+   * /
+   * ├── health  [GET]
+   * └── api
+   *     └── users  [GET, POST]
+   *         └── :id<int>  [GET, PUT, DELETE]
+   */
+  printRoutes(): string {
+    return renderRouteTree(this.router.routes());
+  }
+
   stats(): AppStats {
     const mem = process.memoryUsage();
     return {
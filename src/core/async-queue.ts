@@ -0,0 +1,118 @@
+/**
+ * Push/Pull Async Queue — bridges uWS callbacks to `for await`
+ *
+ * Design decisions:
+ * - Producer pushes from res.onData, consumer pulls with for-await
+ * - onDrain fires when the consumer empties the buffer — used to res.resume()
+ * - drained() lets any number of producers wait; failing or discarding wakes them too
+ * - discard() drops buffered and future items (consumer skipped the rest)
+ * - Errors surface on the consumer's next pull, after buffered items
+ */
+
+export class AsyncQueue<T> implements AsyncIterable<T> {
+  /** Called when the consumer takes the last buffered item */
+  onDrain: (() => void) | null = null;
+  private _items: T[] = [];
+  private _waiter: { resolve: (r: IteratorResult<T>) => void; reject: (err: unknown) => void } | null = null;
+  private _ended = false;
+  private _error: unknown = null;
+  private _discarded = false;
+  private _drainWaiters: (() => void)[] | null = null;
+
+  /** Buffered items not yet pulled */
+  get length(): number {
+    return this._items.length;
+  }
+
+  /** Ended, failed or discarded — further pushes are ignored */
+  get closed(): boolean {
+    return this._ended || this._error !== null || this._discarded;
+  }
+
+  /** Resolves once the buffer is empty, or the queue failed or was discarded */
+  drained(): Promise<void> {
+    if (this._items.length === 0 || this._error !== null || this._discarded) return Promise.resolve();
+    return new Promise((resolve) => {
+      (this._drainWaiters ??= []).push(resolve);
+    });
+  }
+
+  private _drained(): void {
+    if (this.onDrain) this.onDrain();
+    const waiters = this._drainWaiters;
+    if (waiters === null) return;
+    this._drainWaiters = null;
+    for (const resolve of waiters) resolve();
+  }
+
+  push(item: T): void {
+    if (this.closed) return;
+    if (this._waiter) {
+      const waiter = this._waiter;
+      this._waiter = null;
+      waiter.resolve({ value: item, done: false });
+      return;
+    }
+    this._items.push(item);
+  }
+
+  end(): void {
+    if (this.closed) return;
+    this._ended = true;
+    if (this._waiter) {
+      const waiter = this._waiter;
+      this._waiter = null;
+      waiter.resolve({ value: undefined, done: true });
+    }
+  }
+
+  fail(err: unknown): void {
+    if (this.closed) return;
+    this._error = err;
+    if (this._waiter) {
+      const waiter = this._waiter;
+      this._waiter = null;
+      waiter.reject(err);
+    }
+    this._drained();
+  }
+
+  /** Drop everything buffered and ignore the rest — ends the consumer's loop */
+  discard(): void {
+    const wasClosed = this.closed;
+    const dropped = this._items.length > 0;
+    this._items = [];
+    this._discarded = true;
+    if (this._waiter) {
+      const waiter = this._waiter;
+      this._waiter = null;
+      waiter.resolve({ value: undefined, done: true });
+    }
+    if (dropped || !wasClosed) this._drained();
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this._items.length > 0) {
+      const value = this._items.shift()!;
+      if (this._items.length === 0) this._drained();
+      return Promise.resolve({ value, done: false });
+    }
+    if (this._error !== null) return Promise.reject(this._error);
+    if (this._ended || this._discarded) return Promise.resolve({ value: undefined, done: true });
+
+    this._drained();
+    return new Promise((resolve, reject) => {
+      this._waiter = { resolve, reject };
+    });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: () => this.next(),
+      return: () => {
+        this.discard();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+  }
+}
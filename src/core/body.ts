@@ -0,0 +1,144 @@
+/**
+ * Content-Type Driven Body Parsing
+ *
+ * Design decisions:
+ * - Parser picked by media type: exact, then "type/*", then "+suffix" (vnd.api+json => json)
+ * - Built-ins: JSON (400 on syntax error), urlencoded (repeated keys => arrays), text/*
+ * - Unknown or missing Content-Type with a body => 415, never a silent string
+ * - Per-app registry — mounted apps fall back to their parent's parsers
+ * - Parsers run once per request, only when readBody() is called
+ */
+
+import type { Context } from './context.js';
+import { badRequest, unsupportedMediaType } from './errors.js';
+
+/** Turn a raw body into a value — may be async, may throw AppError */
+export type BodyParser = (raw: Buffer, ctx: Context) => unknown | Promise<unknown>;
+
+/**
+ * Media type of a Content-Type header, lowercased, parameters dropped
+ * "Application/JSON; charset=utf-8" => "application/json"
+ */
+export function mediaType(header: string | undefined): string {
+  if (!header) return '';
+  const semi = header.indexOf(';');
+  return (semi === -1 ? header : header.substring(0, semi)).trim().toLowerCase();
+}
+
+const TYPE_ALIASES: Record<string, string> = {
+  json: 'application/json',
+  urlencoded: 'application/x-www-form-urlencoded',
+  form: 'application/x-www-form-urlencoded',
+  text: 'text/*',
+  html: 'text/html',
+  multipart: 'multipart/*',
+};
+
+/**
+ * Match a media type against a pattern
+ * Patterns: "json" (alias), "application/json", "text/*", "+json", "*\/*"
+ */
+export function typeMatches(type: string, pattern: string): boolean {
+  if (!type) return false;
+  const expected = TYPE_ALIASES[pattern] || pattern.toLowerCase();
+
+  if (expected.charCodeAt(0) === 43 /* '+' */) return type.endsWith(expected);
+  if (expected === '*/*' || expected === type) return true;
+  if (expected.endsWith('/*')) return type.startsWith(expected.substring(0, expected.length - 1));
+  return false;
+}
+
+function parseJson(raw: Buffer): unknown {
+  try {
+    return JSON.parse(raw.toString('utf8'));
+  } catch (err) {
+    throw badRequest('Malformed JSON body', 'INVALID_JSON', { reason: (err as Error).message });
+  }
+}
+
+const hasOwn = Object.prototype.hasOwnProperty;
+
+/** "a=1&b=2&b=3" => { a: "1", b: ["2", "3"] } */
+function parseUrlEncoded(raw: Buffer): Record<string, string | string[]> {
+  const result: Record<string, string | string[]> = {};
+  for (const [key, value] of new URLSearchParams(raw.toString('utf8'))) {
+    if (key === '__proto__') continue;
+    // hasOwn — "constructor" / "valueOf" would otherwise hit Object.prototype
+    if (!hasOwn.call(result, key)) {
+      result[key] = value;
+      continue;
+    }
+    const existing = result[key];
+    if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      result[key] = [existing, value];
+    }
+  }
+  return result;
+}
+
+function parseText(raw: Buffer): string {
+  return raw.toString('utf8');
+}
+
+const BUILTIN_PARSERS = new Map<string, BodyParser>([
+  ['application/json', parseJson],
+  ['application/x-www-form-urlencoded', parseUrlEncoded],
+  ['text/*', parseText],
+]);
+
+function lookup(parsers: Map<string, BodyParser>, type: string): BodyParser | undefined {
+  const exact = parsers.get(type);
+  if (exact) return exact;
+
+  const slash = type.indexOf('/');
+  if (slash !== -1) {
+    const wildcard = parsers.get(type.substring(0, slash + 1) + '*');
+    if (wildcard) return wildcard;
+  }
+
+  // Structured syntax suffix — "application/vnd.api+json" => "application/json"
+  const plus = type.lastIndexOf('+');
+  if (plus !== -1) return parsers.get('application/' + type.substring(plus + 1));
+  return undefined;
+}
+
+export class BodyParserRegistry {
+  /** Registry consulted for types not registered here — set by App.mount() */
+  parent: BodyParserRegistry | null = null;
+  private _parsers = new Map<string, BodyParser>();
+
+  /**
+   * Register a parser for a media type — "application/xml", "text/*" or a "+suffix" base type
+   * Overrides the built-in parser for the same type
+   */
+  register(type: string, parser: BodyParser): this {
+    this._parsers.set(type.toLowerCase(), parser);
+    return this;
+  }
+
+  /** Find the parser for a media type — own, then parent, then built-ins */
+  find(type: string): BodyParser | undefined {
+    return lookup(this._parsers, type) || (this.parent ? this.parent.find(type) : lookup(BUILTIN_PARSERS, type));
+  }
+
+  /**
+   * Parse a raw body according to the request Content-Type
+   * @throws 415 when no parser handles the type
+   */
+  parse(raw: Buffer, ctx: Context): unknown | Promise<unknown> {
+    const type = mediaType(ctx.getHeader('content-type'));
+    const parser = type ? this.find(type) : undefined;
+    if (!parser) {
+      throw unsupportedMediaType(
+        type ? `Unsupported Content-Type: ${type}` : 'Missing Content-Type for request body',
+        'UNSUPPORTED_MEDIA_TYPE'
+      );
+    }
+    return parser(raw, ctx);
+  }
+}
+
+/** Built-ins only — used by contexts not attached to an App */
+export const defaultBodyParsers = new BodyParserRegistry();
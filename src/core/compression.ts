@@ -0,0 +1,147 @@
+/**
+ * Response Compression — Accept-Encoding negotiation and zlib encoders
+ *
+ * Design decisions:
+ * - Settings resolved once by the compression() middleware, applied by Context on send
+ * - Client q-values decide; ties go to the server's preference order
+ * - Buffered bodies (json/send) compressed synchronously in one pass
+ * - Streams piped through a zlib transform — socket backpressure stalls the source
+ * - Bodies under the threshold, non-allowlisted types, HEAD, ranges and
+ *   already-encoded or no-transform responses are sent as-is
+ * - zstd only offered where the runtime ships it (Node 22.15+)
+ */
+
+import zlib from 'node:zlib';
+import { Readable, pipeline } from 'node:stream';
+import { mediaType, typeMatches } from './body.js';
+import { acceptedEncodings } from './negotiation.js';
+
+export type CompressionEncoding = 'br' | 'zstd' | 'gzip' | 'deflate';
+
+export interface CompressionOptions {
+  /** Minimum body size in bytes worth compressing (default: 1024) */
+  threshold?: number;
+  /** Encodings offered, in server preference order (default: br, zstd, gzip, deflate) */
+  encodings?: CompressionEncoding[];
+  /** Content types compressed — patterns as in ctx.is(): "text/*", "+json", "json" */
+  types?: string[];
+  /** gzip/deflate level 1–9 (default: 6) */
+  level?: number;
+  /** Brotli quality 0–11 (default: 4 — fast enough for dynamic responses) */
+  brotliQuality?: number;
+  /** zstd level (default: 3) */
+  zstdLevel?: number;
+}
+
+export interface CompressionSettings {
+  readonly threshold: number;
+  readonly encodings: readonly CompressionEncoding[];
+  /** True if a Content-Type is worth compressing */
+  compressible(contentType: string): boolean;
+  compress(body: Buffer, encoding: CompressionEncoding): Buffer;
+  compressStream(source: AsyncIterable<Buffer>, encoding: CompressionEncoding): AsyncIterable<Buffer>;
+}
+
+const ZSTD_AVAILABLE = typeof zlib.zstdCompressSync === 'function';
+
+const DEFAULT_ENCODINGS: CompressionEncoding[] = ZSTD_AVAILABLE
+  ? ['br', 'zstd', 'gzip', 'deflate']
+  : ['br', 'gzip', 'deflate'];
+
+const DEFAULT_TYPES = [
+  'text/*',
+  'application/json',
+  '+json',
+  'application/javascript',
+  'application/xml',
+  '+xml',
+  'application/x-ndjson',
+  'application/wasm',
+];
+
+/**
+ * Pick an encoding from an Accept-Encoding header
+ * negotiateEncoding("gzip;q=0.8, br", ["gzip", "br"]) => "br"
+ * Returns null when nothing acceptable is offered
+ */
+export function negotiateEncoding(
+  header: string | undefined,
+  encodings: readonly CompressionEncoding[]
+): CompressionEncoding | null {
+  if (!header) return null;
+  const accepted = acceptedEncodings(header, encodings);
+  return accepted.length > 0 ? (accepted[0] as CompressionEncoding) : null;
+}
+
+/**
+ * Validate options and build the encoders once
+ * @throws On unknown encodings, or zstd on a runtime without it
+ */
+export function resolveCompression(opts: CompressionOptions = {}): CompressionSettings {
+  const threshold = opts.threshold ?? 1024;
+  const encodings = opts.encodings ?? DEFAULT_ENCODINGS;
+  const types = opts.types ?? DEFAULT_TYPES;
+
+  for (const encoding of encodings) {
+    if (!DEFAULT_ENCODINGS.includes(encoding)) {
+      throw new Error(
+        encoding === 'zstd'
+          ? 'zstd compression is not supported by this Node.js runtime'
+          : `Unknown compression encoding: ${encoding}`
+      );
+    }
+  }
+
+  const zlibOptions: zlib.ZlibOptions = { level: opts.level ?? zlib.constants.Z_DEFAULT_COMPRESSION };
+  const brotliOptions: zlib.BrotliOptions = {
+    params: { [zlib.constants.BROTLI_PARAM_QUALITY]: opts.brotliQuality ?? 4 },
+  };
+  const zstdOptions: zlib.ZstdOptions = {
+    params: { [zlib.constants.ZSTD_c_compressionLevel]: opts.zstdLevel ?? 3 },
+  };
+
+  function createEncoder(encoding: CompressionEncoding): zlib.Gzip | zlib.Deflate | zlib.BrotliCompress | zlib.ZstdCompress {
+    switch (encoding) {
+      case 'br':
+        return zlib.createBrotliCompress(brotliOptions);
+      case 'zstd':
+        return zlib.createZstdCompress(zstdOptions);
+      case 'gzip':
+        return zlib.createGzip(zlibOptions);
+      case 'deflate':
+        return zlib.createDeflate(zlibOptions);
+    }
+  }
+
+  return {
+    threshold,
+    encodings,
+
+    compressible(contentType: string): boolean {
+      const type = mediaType(contentType);
+      for (const pattern of types) {
+        if (typeMatches(type, pattern)) return true;
+      }
+      return false;
+    },
+
+    compress(body: Buffer, encoding: CompressionEncoding): Buffer {
+      switch (encoding) {
+        case 'br':
+          return zlib.brotliCompressSync(body, brotliOptions);
+        case 'zstd':
+          return zlib.zstdCompressSync(body, zstdOptions);
+        case 'gzip':
+          return zlib.gzipSync(body, zlibOptions);
+        case 'deflate':
+          return zlib.deflateSync(body, zlibOptions);
+      }
+    },
+
+    compressStream(source: AsyncIterable<Buffer>, encoding: CompressionEncoding): AsyncIterable<Buffer> {
+      // pipeline() pauses the source while the encoder's buffer is full and
+      // tears both down when the consumer stops early (client abort)
+      return pipeline(Readable.from(source, { objectMode: false }), createEncoder(encoding), () => {});
+    },
+  };
+}
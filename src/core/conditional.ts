@@ -0,0 +1,61 @@
+/**
+ * Conditional Requests — ETags, If-None-Match / If-Modified-Since freshness
+ *
+ * Design decisions:
+ * - Body ETags hash the uncompressed body: "<length>-<sha1>" — weak ones prefixed W/
+ * - If-None-Match uses weak comparison and wins over If-Modified-Since (RFC 9110)
+ * - Dates compared at second precision — HTTP dates carry no milliseconds
+ */
+
+import { createHash } from 'node:crypto';
+
+export type EtagMode = 'weak' | 'strong';
+
+/** Validators a handler already knows — checked before serializing anything */
+export interface Validators {
+  /** Entity tag — quoted if given bare: "v42" => "\"v42\"" */
+  etag?: string;
+  lastModified?: Date | number;
+}
+
+/** ETag for a response body */
+export function computeEtag(body: Buffer | ArrayBuffer | string, mode: EtagMode = 'weak'): string {
+  const data = typeof body === 'string' ? body : Buffer.from(body as ArrayBuffer);
+  const length = typeof body === 'string' ? Buffer.byteLength(body) : body.byteLength;
+  const hash = createHash('sha1').update(data).digest('base64url').substring(0, 27);
+  const tag = `"${length.toString(16)}-${hash}"`;
+  return mode === 'weak' ? 'W/' + tag : tag;
+}
+
+/** Quote a bare tag — already quoted or weak tags are kept */
+export function formatEtag(etag: string): string {
+  return etag.charCodeAt(0) === 34 /* '"' */ || etag.startsWith('W/"') ? etag : `"${etag}"`;
+}
+
+/** True if any entity tag in an If-None-Match list matches (weak comparison) */
+export function etagMatches(header: string, etag: string): boolean {
+  if (header.trim() === '*') return true;
+  const opaque = etag.startsWith('W/') ? etag.substring(2) : etag;
+  for (const tag of header.split(',')) {
+    const candidate = tag.trim();
+    if ((candidate.startsWith('W/') ? candidate.substring(2) : candidate) === opaque) return true;
+  }
+  return false;
+}
+
+/**
+ * Whether the client's cached copy is still good
+ * @param ifNoneMatch Request If-None-Match header
+ * @param ifModifiedSince Request If-Modified-Since header — ignored when If-None-Match is sent
+ */
+export function isFresh(
+  ifNoneMatch: string | undefined,
+  ifModifiedSince: string | undefined,
+  etag: string | undefined,
+  lastModified: Date | undefined
+): boolean {
+  if (ifNoneMatch !== undefined) return etag !== undefined && etagMatches(ifNoneMatch, etag);
+  if (ifModifiedSince === undefined || lastModified === undefined) return false;
+  const since = Date.parse(ifModifiedSince);
+  return !isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since;
+}
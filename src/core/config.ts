@@ -11,6 +11,8 @@
  * Memory: ~1KB for typical config
  */
 
+import type { TrustProxy } from './proxy.js';
+
 export interface PoolConfig {
   readonly contextSize: number;
 }
@@ -25,23 +27,72 @@ export interface ValidationConfig {
   readonly enabled: boolean;
 }
 
+export interface VersioningConfig {
+  /** Version used when a request names none — null picks the latest registered per route */
+  readonly default: string | null;
+  /** Request header carrying the version — null to disable */
+  readonly header: string | null;
+  /** Vendor for media type versioning (application/vnd.<vendor>.v2+json) — null to disable */
+  readonly vendor: string | null;
+  /** Accept /v2/... path prefixes */
+  readonly path: boolean;
+}
+
+export interface RoutingConfig {
+  /** "/users/" vs "/users" — 'ignore' matches both, 'redirect' 301s to the canonical path, 'strict' keeps them distinct */
+  readonly trailingSlash: 'ignore' | 'redirect' | 'strict';
+  /** Match static path segments case-sensitively */
+  readonly caseSensitive: boolean;
+  /** Percent-decode route params — malformed encodings answer 400 */
+  readonly decodeParams: boolean;
+}
+
+export interface QueryConfig {
+  /** Parse "a[b]=c" / "a[]=1" into nested objects and arrays */
+  readonly nested: boolean;
+  /** Max bracket levels parsed when nested */
+  readonly depth: number;
+  /** Max key/value pairs parsed per query string — the rest are ignored */
+  readonly maxParams: number;
+}
+
+export interface CookiesConfig {
+  /** HMAC secrets for signed cookies — the first signs, all verify (rotate by prepending) */
+  readonly secrets: readonly string[];
+}
+
 export interface AppConfig {
   readonly port: number;
   readonly host: string;
-  readonly trustProxy: boolean;
+  /** Proxies whose forwarding headers are believed — true/false, a hop count, or addresses/CIDRs */
+  readonly trustProxy: TrustProxy;
   readonly pool: PoolConfig;
   readonly logging: LoggingConfig;
   readonly validation: ValidationConfig;
+  readonly versioning: VersioningConfig;
+  readonly routing: RoutingConfig;
+  readonly query: QueryConfig;
+  readonly cookies: CookiesConfig;
+  /** Max request body size in bytes — larger bodies answer 413 (override per route with bodyLimit()) */
+  readonly bodyLimit: number;
+  /** ETags for ctx.json()/send() bodies with 304 on a match — false to disable (override per route with etag()) */
+  readonly etag: 'weak' | 'strong' | false;
   readonly gracefulShutdownTimeout: number;
 }
 
 export interface ConfigOverrides {
   port?: number;
   host?: string;
-  trustProxy?: boolean;
+  trustProxy?: TrustProxy;
   pool?: Partial<PoolConfig>;
   logging?: Partial<LoggingConfig>;
   validation?: Partial<ValidationConfig>;
+  versioning?: Partial<VersioningConfig>;
+  routing?: Partial<RoutingConfig>;
+  query?: Partial<QueryConfig>;
+  bodyLimit?: number;
+  etag?: 'weak' | 'strong' | false;
+  cookies?: Partial<CookiesConfig>;
   gracefulShutdownTimeout?: number;
 }
 
@@ -84,6 +135,19 @@ export function envBool(key: string, defaultValue: boolean): boolean {
   return defaultValue;
 }
 
+/**
+ * Get env as a trustProxy setting
+ * "true"/"false", a hop count ("2"), or comma-separated addresses/CIDRs ("loopback, 10.0.0.0/8")
+ */
+export function envTrustProxy(key: string, defaultValue: TrustProxy): TrustProxy {
+  const val = process.env[key]?.trim();
+  if (val === undefined || val === '') return defaultValue;
+  if (val === 'true' || val === 'yes') return true;
+  if (val === 'false' || val === 'no') return false;
+  if (/^\d+$/.test(val)) return parseInt(val, 10);
+  return val.split(',').map((spec) => spec.trim()).filter((spec) => spec.length > 0);
+}
+
 const DEFAULT_CONFIG: AppConfig = {
   port: 3000,
   host: '0.0.0.0',
@@ -91,6 +155,12 @@ const DEFAULT_CONFIG: AppConfig = {
   pool: { contextSize: 64 },
   logging: { level: 3, enabled: true, timestamp: true },
   validation: { enabled: false },
+  versioning: { default: null, header: 'accept-version', vendor: 'blazy', path: false },
+  routing: { trailingSlash: 'ignore', caseSensitive: true, decodeParams: true },
+  query: { nested: false, depth: 5, maxParams: 1000 },
+  bodyLimit: 1024 * 1024,
+  etag: false,
+  cookies: { secrets: [] },
   gracefulShutdownTimeout: 5000,
 };
 
@@ -102,7 +172,7 @@ export function loadConfig(overrides: ConfigOverrides = {}): Readonly<AppConfig>
   const config: AppConfig = {
     port: envInt('PORT', overrides.port ?? DEFAULT_CONFIG.port),
     host: env('HOST', overrides.host ?? DEFAULT_CONFIG.host) ?? DEFAULT_CONFIG.host,
-    trustProxy: envBool('TRUST_PROXY', overrides.trustProxy ?? DEFAULT_CONFIG.trustProxy),
+    trustProxy: envTrustProxy('TRUST_PROXY', overrides.trustProxy ?? DEFAULT_CONFIG.trustProxy),
     pool: {
       contextSize: overrides.pool?.contextSize ?? DEFAULT_CONFIG.pool.contextSize,
     },
@@ -114,6 +184,37 @@ export function loadConfig(overrides: ConfigOverrides = {}): Readonly<AppConfig>
     validation: {
       enabled: overrides.validation?.enabled ?? DEFAULT_CONFIG.validation.enabled,
     },
+    versioning: {
+      default:
+        env('API_DEFAULT_VERSION', overrides.versioning?.default ?? undefined) ??
+        DEFAULT_CONFIG.versioning.default,
+      header:
+        overrides.versioning?.header !== undefined
+          ? overrides.versioning.header
+          : DEFAULT_CONFIG.versioning.header,
+      vendor:
+        overrides.versioning?.vendor !== undefined
+          ? overrides.versioning.vendor
+          : DEFAULT_CONFIG.versioning.vendor,
+      path: overrides.versioning?.path ?? DEFAULT_CONFIG.versioning.path,
+    },
+    routing: {
+      trailingSlash: overrides.routing?.trailingSlash ?? DEFAULT_CONFIG.routing.trailingSlash,
+      caseSensitive: overrides.routing?.caseSensitive ?? DEFAULT_CONFIG.routing.caseSensitive,
+      decodeParams: overrides.routing?.decodeParams ?? DEFAULT_CONFIG.routing.decodeParams,
+    },
+    query: {
+      nested: overrides.query?.nested ?? DEFAULT_CONFIG.query.nested,
+      depth: overrides.query?.depth ?? DEFAULT_CONFIG.query.depth,
+      maxParams: envInt('QUERY_MAX_PARAMS', overrides.query?.maxParams ?? DEFAULT_CONFIG.query.maxParams),
+    },
+    bodyLimit: envInt('BODY_LIMIT', overrides.bodyLimit ?? DEFAULT_CONFIG.bodyLimit),
+    etag: overrides.etag ?? DEFAULT_CONFIG.etag,
+    cookies: {
+      secrets: (env('COOKIE_SECRETS')?.split(',') ?? overrides.cookies?.secrets ?? DEFAULT_CONFIG.cookies.secrets)
+        .map((secret) => secret.trim())
+        .filter((secret) => secret.length > 0),
+    },
     gracefulShutdownTimeout:
       overrides.gracefulShutdownTimeout ?? DEFAULT_CONFIG.gracefulShutdownTimeout,
   };
@@ -7,6 +7,7 @@
  * - Explicit registration only — no auto-scanning
  * - get() is O(1) hash lookup
  * - No proxy objects, no lazy wrapping
+ * - Optional parent — child containers override keys, inherit the rest
  * - Total overhead: <1KB for typical app
  */
 
@@ -15,6 +16,9 @@ export class Container {
   private _factories = new Map<string, () => unknown>();
   private _asyncFactories = new Map<string, () => Promise<unknown>>();
 
+  /** Fallback for keys not registered here (set when an App is mounted) */
+  parent: Container | null = null;
+
   /** Register a singleton value */
   set<T>(key: string, value: T): this {
     this._singletons.set(key, value);
@@ -41,7 +45,7 @@ export class Container {
     const factory = this._factories.get(key);
     if (factory) return factory() as T;
 
-    return undefined;
+    return this.parent ? this.parent.get<T>(key) : undefined;
   }
 
   /** Resolve a lazy singleton — async, caches result */
@@ -60,13 +64,16 @@ export class Container {
     const factory = this._factories.get(key);
     if (factory) return factory() as T;
 
-    return undefined;
+    return this.parent ? this.parent.resolve<T>(key) : undefined;
   }
 
   /** Check if a key is registered */
   has(key: string): boolean {
     return (
-      this._singletons.has(key) || this._factories.has(key) || this._asyncFactories.has(key)
+      this._singletons.has(key) ||
+      this._factories.has(key) ||
+      this._asyncFactories.has(key) ||
+      (this.parent !== null && this.parent.has(key))
     );
   }
 
@@ -3,11 +3,20 @@
  *
  * Design decisions:
  * - Context objects are pooled and reused across requests
- * - Body, query, and headers are lazily parsed (only on access)
+ * - Body, query, headers and cookies are lazily parsed (only on access)
+ * - Body parsed by Content-Type through the app's parser registry
+ * - Request bodies streamable with socket pause/resume backpressure
+ * - Multipart bodies streamed part by part; temp files removed on release/abort
  * - Direct reference to uWS res/req — no wrapping overhead
  * - reset() clears all state without creating new objects
  * - Params object reused from router match (not cloned)
  * - Backpressure handling for large responses to slow clients
+ * - Server-Sent Events share the same drain logic as stream()
+ * - Responses compressed on send when compression() enabled it for the route
+ * - Client ip/protocol/hostname read forwarding headers only from trusted proxies
+ * - GET/HEAD bodies get ETags (config.etag / etag()) and 304 when the client copy is fresh
+ * - Request bodies capped by bodyLimit — 413 before or while buffering
+ * - State, Params and Body are type-only generics — one pooled class serves every route
  *
  * Memory per context: ~400 bytes (excluding lazy-parsed data)
  * Pool of 64 contexts: ~25KB total
@@ -15,37 +24,44 @@
 
 import type { HttpResponse, HttpRequest } from 'uWebSockets.js';
 import type { App } from './app.js';
+import type { ParamValue } from './router.js';
+import { notAcceptable, payloadTooLarge } from './errors.js';
+import { defaultBodyParsers, mediaType, typeMatches } from './body.js';
+import { parseMultipart, readMultipart } from './multipart.js';
+import { AsyncQueue } from './async-queue.js';
+import { parseQuery } from './query.js';
+import type { QueryObject } from './query.js';
+import { parseCookies, serializeCookie, signCookie, unsignCookie } from './cookies.js';
+import type { CookieOptions } from './cookies.js';
+import { SseStream } from './sse.js';
+import type { SseOptions } from './sse.js';
+import { negotiateEncoding } from './compression.js';
+import type { CompressionEncoding, CompressionSettings } from './compression.js';
+import { computeEtag, formatEtag, isFresh } from './conditional.js';
+import type { EtagMode, Validators } from './conditional.js';
+import { acceptedEncodings, acceptedLanguages, acceptedTypes } from './negotiation.js';
+import { normalizeAddress, parseForwarded, trustedChain } from './proxy.js';
+import type { ForwardedInfo, TrustFn } from './proxy.js';
+import { Readable } from 'node:stream';
+import { ReadableStream } from 'node:stream/web';
+import type { MultipartOptions, MultipartPart, MultipartResult } from './multipart.js';
+
+export interface BodyStreamOptions {
+  /** Max bytes before the stream throws 413 (default: ctx.bodyLimit) */
+  limit?: number;
+}
 
 /**
- * Parse query string into object — only called on demand
+ * ctx.state when nothing declares it — any key, unknown values
+ * Declared state narrows it: DefaultState & { user: User }
  */
-function parseQueryString(qs: string): Record<string, string> {
-  const result: Record<string, string> = {};
-  if (!qs) return result;
-
-  let start = 0;
-  let eqIdx = -1;
-
-  for (let i = 0; i <= qs.length; i++) {
-    const ch = i < qs.length ? qs.charCodeAt(i) : 38;
-
-    if (ch === 61 /* '=' */) {
-      eqIdx = i;
-    } else if (ch === 38 /* '&' */ || i === qs.length) {
-      if (eqIdx > start) {
-        const key = qs.substring(start, eqIdx);
-        const val = qs.substring(eqIdx + 1, i);
-        result[key] = decodeURIComponent(val);
-      } else if (i > start) {
-        result[qs.substring(start, i)] = '';
-      }
-      start = i + 1;
-      eqIdx = -1;
-    }
-  }
+export type DefaultState = Record<string, unknown>;
 
-  return result;
-}
+/** Contexts outside an App trust no proxy */
+const untrusted: TrustFn = () => false;
+
+/** Buffered request chunks before the socket is paused */
+const BODY_STREAM_HIGH_WATER = 16;
 
 // =================== HTTP STATUS TEXT CACHE ===================
 
@@ -55,6 +71,7 @@ const STATUS_TEXTS: Record<number, string> = {
   200: '200 OK',
   201: '201 Created',
   204: '204 No Content',
+  206: '206 Partial Content',
   301: '301 Moved Permanently',
   302: '302 Found',
   304: '304 Not Modified',
@@ -63,7 +80,11 @@ const STATUS_TEXTS: Record<number, string> = {
   403: '403 Forbidden',
   404: '404 Not Found',
   405: '405 Method Not Allowed',
+  406: '406 Not Acceptable',
   409: '409 Conflict',
+  413: '413 Payload Too Large',
+  415: '415 Unsupported Media Type',
+  416: '416 Range Not Satisfiable',
   422: '422 Unprocessable Entity',
   429: '429 Too Many Requests',
   500: '500 Internal Server Error',
@@ -80,7 +101,17 @@ function statusText(code: number): string {
   return text;
 }
 
-export class Context {
+/**
+ * Request context — generics type ctx.state, ctx.params and ctx.body
+ *
+ * @example
+ * type Authed = Context<{ user: User }, { id: number }>;
+ */
+export class Context<
+  State extends DefaultState = DefaultState,
+  Params extends Record<string, ParamValue> = Record<string, ParamValue>,
+  Body = unknown
+> {
   // -- uWS references --
   res: HttpResponse | null = null;
   req: HttpRequest | null = null;
@@ -90,17 +121,32 @@ export class Context {
   url: string = '';
   path: string = '';
 
-  // -- Route params --
-  params: Record<string, string> | null = null;
+  // -- Route params (numbers when coerced by a typed constraint) --
+  params: Params | null = null;
 
   // -- Lazy-parsed fields --
   private _queryRaw: string | null = null;
-  private _query: Record<string, string> | null = null;
+  private _query: QueryObject | null = null;
+  private _cookies: Record<string, string> | null = null;
+  private _signedCookies: Record<string, string> | null = null;
+  private _remoteAddress: string | null = null;
+  private _forwarded: ForwardedInfo | null = null;
+  private _ips: string[] | null = null;
   private _body: unknown = null;
   private _bodyParsed: boolean = false;
+  private _bodyClaimed: boolean = false;
   private _rawBody: Buffer | null = null;
   private _headers: Map<string, string> | null = null;
 
+  // -- Max request body bytes — app config default, raised/lowered by bodyLimit() --
+  bodyLimit: number = Infinity;
+
+  // -- Response compression — set by the compression() middleware --
+  compression: CompressionSettings | null = null;
+
+  // -- Body ETags for json()/send() — app config default, overridden by etag() --
+  etag: EtagMode | false = false;
+
   // -- Response state --
   statusCode: number = 200;
   responded: boolean = false;
@@ -110,8 +156,11 @@ export class Context {
   private _resHeaderKeys: string[] | null = null;
   private _resHeaderVals: string[] | null = null;
 
-  // -- Arbitrary user data --
-  state: Record<string, unknown> = {};
+  // -- Per-request user data — typed by State, declared by middleware --
+  state: State = {} as State;
+
+  // -- Run on release or abort (temp files, pending streams) --
+  private _cleanup: (() => void)[] | null = null;
 
   // -- App reference --
   app: App | null = null;
@@ -120,6 +169,7 @@ export class Context {
    * Reset context for reuse — clears all request-specific state
    */
   reset(): void {
+    this._runCleanup();
     this.res = null;
     this.req = null;
     this.method = '';
@@ -128,8 +178,17 @@ export class Context {
     this.params = null;
     this._queryRaw = null;
     this._query = null;
+    this._cookies = null;
+    this._signedCookies = null;
+    this._remoteAddress = null;
+    this._forwarded = null;
+    this._ips = null;
     this._body = null;
     this._bodyParsed = false;
+    this._bodyClaimed = false;
+    this.bodyLimit = Infinity;
+    this.compression = null;
+    this.etag = false;
     this._rawBody = null;
     this._headers = null;
     this.statusCode = 200;
@@ -137,7 +196,7 @@ export class Context {
     this.aborted = false;
     this._resHeaderKeys = null;
     this._resHeaderVals = null;
-    this.state = {};
+    this.state = {} as State;
   }
 
   /**
@@ -147,6 +206,8 @@ export class Context {
     this.res = res;
     this.method = req.getMethod().toUpperCase();
     this.url = req.getUrl();
+    this.bodyLimit = this.app ? this.app.config.bodyLimit : Infinity;
+    this.etag = this.app ? this.app.config.etag : false;
 
     const qIdx = this.url.indexOf('?');
     if (qIdx !== -1) {
@@ -163,9 +224,12 @@ export class Context {
     this.req = req;
 
     // Register abort handler to prevent dangling pointer exceptions
+    // uWS keeps one handler per response — this is the only registration
     res.onAborted(() => {
+      if (this.res !== res) return; // Context already released and reused
       this.aborted = true;
       this.res = null; // Clear reference to prevent use-after-free
+      this._runCleanup();
     });
   }
 
@@ -186,14 +250,87 @@ export class Context {
 
   // =================== LAZY GETTERS ===================
 
-  /** Parsed query parameters — lazy */
-  get query(): Record<string, string> {
+  /** Parsed query parameters — lazy; repeated keys are arrays, nesting per config.query */
+  get query(): QueryObject {
     if (this._query === null) {
-      this._query = this._queryRaw ? parseQueryString(this._queryRaw) : {};
+      this._query = this._queryRaw ? parseQuery(this._queryRaw, this.app ? this.app.config.query : undefined) : {};
     }
     return this._query;
   }
 
+  /** Request cookies — lazy, decoded; signed ones still carry their signature */
+  get cookies(): Record<string, string> {
+    if (this._cookies === null) {
+      this._cookies = parseCookies(this.getHeader('cookie'));
+    }
+    return this._cookies;
+  }
+
+  /** Signed cookies that verify against config.cookies.secrets — tampered ones are left out */
+  get signedCookies(): Record<string, string> {
+    if (this._signedCookies === null) {
+      this._signedCookies = {};
+      const secrets = this.app ? this.app.config.cookies.secrets : [];
+      const cookies = this.cookies;
+      for (const name in cookies) {
+        const value = unsignCookie(cookies[name], secrets);
+        if (value !== false) this._signedCookies[name] = value;
+      }
+    }
+    return this._signedCookies;
+  }
+
+  /** Raw query string without the "?" — "" when there is none */
+  get querystring(): string {
+    return this._queryRaw || '';
+  }
+
+  /** Socket peer address — the nearest proxy when behind one */
+  get remoteAddress(): string {
+    if (this._remoteAddress === null) {
+      this._remoteAddress = this.res ? normalizeAddress(Buffer.from(this.res.getRemoteAddressAsText()).toString()) : '';
+    }
+    return this._remoteAddress;
+  }
+
+  /** Client address — the first untrusted hop walking back from the socket (config.trustProxy) */
+  get ip(): string {
+    const ips = this.ips;
+    return ips.length > 0 ? ips[0] : this.remoteAddress;
+  }
+
+  /** Forwarded addresses through trusted proxies, client first — [] when no proxy is trusted */
+  get ips(): string[] {
+    if (this._ips === null) {
+      this._ips = trustedChain(this.remoteAddress, this._forwardedInfo().for, this._trust());
+    }
+    return this._ips;
+  }
+
+  /** "https" or "http" — X-Forwarded-Proto / Forwarded proto only from a trusted proxy */
+  get protocol(): string {
+    const proto = this._trust()(this.remoteAddress, 0) ? this._forwardedInfo().proto : undefined;
+    return proto === 'https' || proto === 'http' ? proto : 'http';
+  }
+
+  /** Host without the port — X-Forwarded-Host / Forwarded host only from a trusted proxy */
+  get hostname(): string {
+    const forwarded = this._trust()(this.remoteAddress, 0) ? this._forwardedInfo().host : undefined;
+    const host = forwarded || this.getHeader('host') || '';
+    // "[::1]:3000" keeps its brackets, "example.com:3000" loses the port
+    const colon = host.indexOf(':', host.charCodeAt(0) === 91 /* '[' */ ? host.indexOf(']') : 0);
+    return colon === -1 ? host : host.substring(0, colon);
+  }
+
+  private _trust(): TrustFn {
+    return this.app ? this.app.trustProxy : untrusted;
+  }
+
+  private _forwardedInfo(): ForwardedInfo {
+    if (this._forwarded === null) this._forwarded = parseForwarded((name) => this.getHeader(name));
+    return this._forwarded;
+  }
+
   /** Get request header (lowercase key) */
   getHeader(key: string): string | undefined {
     if (!this._headers) {
@@ -203,24 +340,142 @@ export class Context {
   }
 
   /**
-   * Read and parse request body
+   * Read and parse request body according to its Content-Type
+   * JSON, urlencoded and text/* built in — more via app.bodyParser()
    * Returns a Promise because uWS body reading is async
+   * Rejects with 400 (malformed), 413 (over ctx.bodyLimit) or 415 (unknown type)
    */
-  readBody<T = unknown>(): Promise<T | null> {
+  async readBody<T = Body>(): Promise<T | null> {
     if (this._bodyParsed) {
-      return Promise.resolve(this._body as T | null);
+      return this._body as T | null;
+    }
+
+    const raw = this._rawBody !== null ? this._rawBody : await this._collectBody();
+    if (raw === null) return null;
+
+    if (raw.length > 0) {
+      const parsers = this.app ? this.app.bodyParsers : defaultBodyParsers;
+      this._body = await parsers.parse(raw, this);
+    } else {
+      this._body = null;
     }
+    this._bodyParsed = true;
 
-    return new Promise<T | null>((resolve) => {
+    return this._body as T | null;
+  }
+
+  /**
+   * Read raw body as Buffer — no parsing
+   * Use for binary protocols (protobuf, msgpack, etc.)
+   * Rejects with 413 when the body exceeds ctx.bodyLimit
+   */
+  async readRawBody(): Promise<Buffer | null> {
+    if (this._rawBody !== null) {
+      return this._rawBody;
+    }
+    return this._collectBody();
+  }
+
+  /**
+   * Check the request Content-Type — returns the first matching pattern, or false
+   * Patterns: "json", "urlencoded", "text", "multipart", "application/json", "image/*", "+json"
+   *
+   * @example
+   * if (ctx.is('json', '+json')) { ... }
+   */
+  is(...types: string[]): string | false {
+    const type = mediaType(this.getHeader('content-type'));
+    for (const pattern of types) {
+      if (typeMatches(type, pattern)) return pattern;
+    }
+    return false;
+  }
+
+  /**
+   * Best response type the client accepts (Accept q-values) — false if none
+   * Types: "json", "html", "text", "xml", "protobuf" or full media types
+   *
+   * @example
+   * ctx.accepts('json', 'html'); // Accept: text/html;q=0.9, *\/*;q=0.1 => "html"
+   */
+  accepts(...types: string[]): string | false {
+    const accepted = acceptedTypes(this.getHeader('accept'), types);
+    return accepted.length > 0 ? accepted[0] : false;
+  }
+
+  /** Best language the client accepts (Accept-Language) — false if none; "en" accepts "en-US" */
+  acceptsLanguages(...languages: string[]): string | false {
+    const accepted = acceptedLanguages(this.getHeader('accept-language'), languages);
+    return accepted.length > 0 ? accepted[0] : false;
+  }
+
+  /** Best content coding the client accepts (Accept-Encoding) — false if none */
+  acceptsEncodings(...encodings: string[]): string | false {
+    const accepted = acceptedEncodings(this.getHeader('accept-encoding'), encodings);
+    return accepted.length > 0 ? accepted[0] : false;
+  }
+
+  /**
+   * Run the handler for the best type the client accepts — 406 when none fits
+   * Keys as in accepts(); ties go to the first key. Sets Vary: Accept
+   *
+   * @example
+   * ctx.format({
+   *   json: () => ctx.json(user),
+   *   protobuf: () => sendProto(ctx, registry, 'User', user),
+   *   text: () => ctx.text(user.name),
+   * });
+   */
+  format(handlers: Record<string, () => void | Promise<void>>): void | Promise<void> {
+    const types = Object.keys(handlers);
+    this.vary('Accept');
+    const type = this.accepts(...types);
+    if (type === false) {
+      throw notAcceptable(`Not Acceptable — available: ${types.join(', ')}`, 'NOT_ACCEPTABLE');
+    }
+    return handlers[type]();
+  }
+
+  /**
+   * Buffer the request body from uWS, enforcing bodyLimit
+   *
+   * A Content-Length over the limit is rejected before any data is read;
+   * otherwise chunks are counted and buffering stops at the first byte over.
+   */
+  private _collectBody(): Promise<Buffer | null> {
+    return new Promise<Buffer | null>((resolve, reject) => {
       if (this.aborted || !this.res) {
         resolve(null);
         return;
       }
 
+      this._claimBody();
+      const limit = this.bodyLimit;
+      const declared = this.getHeader('content-length');
+      if (declared !== undefined && Number(declared) > limit) {
+        reject(payloadTooLarge(`Request body exceeds ${limit} bytes`, 'BODY_TOO_LARGE'));
+        return;
+      }
+
+      // Client gone before the last chunk — settle instead of hanging
+      this.onCleanup(() => resolve(null));
+
       let chunks: Buffer[] | null = null;
+      let received = 0;
+      let overflowed = false;
 
       this.res.onData((chunk: ArrayBuffer, isLast: boolean) => {
-        const buf = Buffer.from(chunk);
+        if (overflowed) return; // Discard the rest — 413 already on its way
+
+        received += chunk.byteLength;
+        if (received > limit) {
+          overflowed = true;
+          chunks = null;
+          reject(payloadTooLarge(`Request body exceeds ${limit} bytes`, 'BODY_TOO_LARGE'));
+          return;
+        }
+
+        const buf = Buffer.from(Buffer.from(chunk)); // Must copy — uWS reuses buffer
 
         if (isLast) {
           let fullBuf: Buffer;
@@ -232,76 +487,157 @@ export class Context {
           }
 
           this._rawBody = fullBuf;
-          this._bodyParsed = true;
-
-          if (fullBuf.length > 0) {
-            try {
-              this._body = JSON.parse(fullBuf.toString('utf8'));
-            } catch {
-              this._body = fullBuf.toString('utf8');
-            }
-          } else {
-            this._body = null;
-          }
-
-          resolve(this._body as T | null);
+          resolve(fullBuf);
         } else {
           if (!chunks) chunks = [];
-          chunks.push(Buffer.from(buf)); // Must copy — uWS reuses buffer
+          chunks.push(buf);
         }
       });
     });
   }
 
   /**
-   * Read raw body as Buffer — no JSON parsing
-   * Use for binary protocols (protobuf, msgpack, etc.)
+   * Stream the request body chunk by chunk — nothing is buffered whole
+   *
+   * The socket is paused while the consumer lags behind and resumed once it
+   * catches up. A client abort ends the iteration (check ctx.aborted);
+   * going over the limit (default ctx.bodyLimit) throws 413 from the loop.
+   *
+   * @example
+   * for await (const chunk of ctx.bodyStream()) {
+   *   ndjson.write(chunk);
+   * }
    */
-  readRawBody(): Promise<Buffer | null> {
+  bodyStream(options: BodyStreamOptions = {}): AsyncIterable<Buffer> {
+    const queue = new AsyncQueue<Buffer>();
+
+    // Already buffered by readBody()/readRawBody()
     if (this._rawBody !== null) {
-      return Promise.resolve(this._rawBody);
+      queue.push(this._rawBody);
+      queue.end();
+      return queue;
     }
 
-    return new Promise<Buffer | null>((resolve) => {
-      if (this.aborted || !this.res) {
-        resolve(null);
+    const res = this.res;
+    if (this.aborted || !res) {
+      queue.end();
+      return queue;
+    }
+
+    this._claimBody();
+    const limit = options.limit ?? this.bodyLimit;
+    const declared = this.getHeader('content-length');
+    if (declared !== undefined && Number(declared) > limit) {
+      queue.fail(payloadTooLarge(`Request body exceeds ${limit} bytes`, 'BODY_TOO_LARGE'));
+      return queue;
+    }
+
+    let received = 0;
+    let paused = false;
+    queue.onDrain = () => {
+      if (paused && this.res === res) {
+        paused = false;
+        res.resume();
+      }
+    };
+
+    res.onData((chunk: ArrayBuffer, isLast: boolean) => {
+      if (queue.closed) return; // Consumer stopped or limit hit — drain and drop
+
+      received += chunk.byteLength;
+      if (received > limit) {
+        queue.fail(payloadTooLarge(`Request body exceeds ${limit} bytes`, 'BODY_TOO_LARGE'));
+        queue.onDrain!();
         return;
       }
 
-      let chunks: Buffer[] | null = null;
+      if (chunk.byteLength > 0) queue.push(Buffer.from(Buffer.from(chunk))); // Must copy — uWS reuses buffer
+      if (isLast) {
+        queue.end();
+      } else if (queue.length >= BODY_STREAM_HIGH_WATER && !paused) {
+        paused = true;
+        res.pause();
+      }
+    });
 
-      this.res.onData((chunk: ArrayBuffer, isLast: boolean) => {
-        const buf = Buffer.from(chunk);
+    this.onCleanup(() => queue.end());
+    return queue;
+  }
 
-        if (isLast) {
-          let fullBuf: Buffer;
-          if (chunks) {
-            chunks.push(buf);
-            fullBuf = Buffer.concat(chunks);
-          } else {
-            fullBuf = buf;
-          }
+  /** bodyStream() as a Node.js Readable — for pipeline() and stream APIs */
+  bodyReadable(options?: BodyStreamOptions): Readable {
+    return Readable.from(this.bodyStream(options), { objectMode: false });
+  }
 
-          this._rawBody = fullBuf;
-          this._bodyParsed = true;
-          this._body = null; // raw mode — no JSON parse
-          resolve(fullBuf);
-        } else {
-          if (!chunks) chunks = [];
-          chunks.push(Buffer.from(buf));
-        }
-      });
+  /** bodyStream() as a web ReadableStream — for fetch() bodies and web APIs */
+  bodyWebStream(options?: BodyStreamOptions): ReadableStream<Uint8Array> {
+    const iterator = this.bodyStream(options)[Symbol.asyncIterator]();
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const { value, done } = await iterator.next();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      },
+      async cancel() {
+        await iterator.return?.();
+      },
     });
   }
 
+  /** uWS keeps a single onData handler — a second reader would silently steal the body */
+  private _claimBody(): void {
+    if (this._bodyClaimed) {
+      throw new Error('Request body is already being read');
+    }
+    this._bodyClaimed = true;
+  }
+
+  /**
+   * Stream the parts of a multipart/form-data body — fields whole, files as AsyncIterable<Buffer>
+   * See parseMultipart() in core/multipart.ts
+   */
+  multipart(options?: MultipartOptions): AsyncIterable<MultipartPart> {
+    return parseMultipart(this, options);
+  }
+
+  /**
+   * Parse a multipart/form-data body, writing files to a temp dir
+   * Temp files are deleted when the context is released or aborted
+   */
+  readMultipart(options?: MultipartOptions): Promise<MultipartResult> {
+    return readMultipart(this, options);
+  }
+
+  /**
+   * Run fn once the request is over — on release or client abort
+   * For per-request resources: temp files, pending streams
+   */
+  onCleanup(fn: () => void): void {
+    if (!this._cleanup) this._cleanup = [];
+    this._cleanup.push(fn);
+  }
+
+  private _runCleanup(): void {
+    const cleanup = this._cleanup;
+    if (!cleanup) return;
+    this._cleanup = null;
+    for (const fn of cleanup) {
+      try {
+        fn();
+      } catch {
+        // Cleanup must never break release
+      }
+    }
+  }
+
   /** Raw body buffer (must call readBody or readRawBody first) */
   get rawBody(): Buffer | null {
     return this._rawBody;
   }
 
   /** Parsed body (must call readBody first) */
-  get body(): unknown {
-    return this._body;
+  get body(): Body | null {
+    return this._body as Body | null;
   }
 
   // =================== RESPONSE METHODS ===================
@@ -322,6 +658,27 @@ export class Context {
     return this;
   }
 
+  /**
+   * Add a field to the Vary header — one merged header, no duplicates
+   * @example ctx.vary('Accept-Language');
+   */
+  vary(field: string): this {
+    if (this.aborted || this.responded || !this.res) return this;
+    const keys = this._resHeaderKeys;
+    if (keys) {
+      for (let i = 0; i < keys.length; i++) {
+        if (keys[i].toLowerCase() !== 'vary') continue;
+        const current = this._resHeaderVals![i];
+        const fields = current.toLowerCase().split(',').map((f) => f.trim());
+        if (!fields.includes('*') && !fields.includes(field.toLowerCase())) {
+          this._resHeaderVals![i] = `${current}, ${field}`;
+        }
+        return this;
+      }
+    }
+    return this.setHeader('Vary', field);
+  }
+
   /** Set status code */
   status(code: number): this {
     this.statusCode = code;
@@ -353,36 +710,126 @@ export class Context {
       console.error('Cannot send JSON response: context is aborted or responded or res is null');
       return;
     };
-    this.responded = true;
 
     const code = status !== undefined ? status : this.statusCode;
-    const body = JSON.stringify(data);
-
-    this._flush(code);
-    this.res.writeHeader('Content-Type', 'application/json');
-    this.res.end(body);
+    this._respond(code, 'application/json', JSON.stringify(data));
   }
 
   /** Send plain text response */
   text(text: string, status?: number): void {
     if (this.aborted || this.responded || !this.res) return;
-    this.responded = true;
 
     const code = status !== undefined ? status : this.statusCode;
-    this._flush(code);
-    this.res.writeHeader('Content-Type', 'text/plain');
-    this.res.end(text);
+    this._respond(code, 'text/plain', text);
   }
 
   /** Send raw buffer response */
   send(data: Buffer | ArrayBuffer | string, contentType = 'application/octet-stream', status?: number): void {
     if (this.aborted || this.responded || !this.res) return;
-    this.responded = true;
 
     const code = status !== undefined ? status : this.statusCode;
+    this._respond(code, contentType, data);
+  }
+
+  /**
+   * Answer 304 if the client's cached copy matches these validators
+   * Sets ETag / Last-Modified either way — call before loading or serializing the body
+   *
+   * @example
+   * app.get('/api/users', (ctx) => {
+   *   if (ctx.notModified({ etag: `users-${store.version}`, lastModified: store.updatedAt })) return;
+   *   ctx.json(store.list());
+   * });
+   */
+  notModified(validators: Validators): boolean {
+    if (this.aborted || this.responded || !this.res) return false;
+
+    const etag = validators.etag !== undefined ? formatEtag(validators.etag) : undefined;
+    const lastModified = validators.lastModified !== undefined ? new Date(validators.lastModified) : undefined;
+    if (etag !== undefined) this.setHeader('ETag', etag);
+    if (lastModified !== undefined) this.setHeader('Last-Modified', lastModified.toUTCString());
+
+    if (!this._isFresh(etag, lastModified)) return false;
+    this.empty(304);
+    return true;
+  }
+
+  private _isFresh(etag: string | undefined, lastModified: Date | undefined): boolean {
+    if (this.method !== 'GET' && this.method !== 'HEAD') return false;
+    return isFresh(this.getHeader('if-none-match'), this.getHeader('if-modified-since'), etag, lastModified);
+  }
+
+  /**
+   * Send a buffered body — ETag/304 check, headers, then compression
+   * HEAD requests only report the length so a GET handler can serve HEAD unchanged
+   */
+  private _respond(code: number, contentType: string, body: Buffer | ArrayBuffer | string): void {
+    // Negotiated first — a 304 carries the same ETag and Vary as the 200 it stands for
+    const length = typeof body === 'string' ? Buffer.byteLength(body) : body.byteLength;
+    const encoding = this._negotiateEncoding(contentType, length);
+
+    // Body ETag unless the handler set its own validator via notModified()/setHeader()
+    let etag: string | null = null;
+    if (
+      this.etag &&
+      code >= 200 && code < 300 &&
+      (this.method === 'GET' || this.method === 'HEAD') &&
+      this._responseHeader('etag') === undefined
+    ) {
+      etag = computeEtag(body, this.etag);
+      // A strong ETag names the exact bytes — compressed bytes differ, so weaken it
+      if (encoding && !etag.startsWith('W/')) etag = 'W/' + etag;
+      if (this._isFresh(etag, undefined)) {
+        this.setHeader('ETag', etag);
+        this.empty(304);
+        return;
+      }
+    }
+
+    this.responded = true;
     this._flush(code);
-    this.res.writeHeader('Content-Type', contentType);
-    this.res.end(data);
+    const res = this.res!;
+    res.writeHeader('Content-Type', contentType);
+    if (etag !== null) res.writeHeader('ETag', etag);
+
+    if (this.method === 'HEAD') {
+      res.endWithoutBody(length);
+    } else if (encoding) {
+      const raw = typeof body === 'string' ? Buffer.from(body) : Buffer.from(body as ArrayBuffer);
+      res.writeHeader('Content-Encoding', encoding);
+      res.end(this.compression!.compress(raw, encoding));
+    } else {
+      res.end(body);
+    }
+  }
+
+  /**
+   * Encoding to compress this response with — null sends it as-is
+   * Adds Vary for compressible types so caches keep the encodings apart — call before _flush()
+   */
+  private _negotiateEncoding(contentType: string, length: number | undefined): CompressionEncoding | null {
+    const settings = this.compression;
+    if (!settings || !settings.compressible(contentType) || this._responseHeader('content-encoding') !== undefined) {
+      return null;
+    }
+    this.vary('Accept-Encoding');
+
+    // Byte ranges address the identity encoding
+    if (this.method === 'HEAD' || this._responseHeader('content-range') !== undefined) return null;
+    if (length !== undefined && length < settings.threshold) return null;
+    const cacheControl = this._responseHeader('cache-control');
+    if (cacheControl !== undefined && cacheControl.includes('no-transform')) return null;
+    return negotiateEncoding(this.getHeader('accept-encoding'), settings.encodings);
+  }
+
+  /** A buffered response header, case-insensitive — first value wins */
+  private _responseHeader(name: string): string | undefined {
+    const keys = this._resHeaderKeys;
+    if (!keys) return undefined;
+    for (let i = 0; i < keys.length; i++) {
+      if (keys[i].toLowerCase() === name) return this._resHeaderVals![i];
+    }
+    return undefined;
   }
 
   /** Send HTML response */
@@ -409,6 +856,31 @@ export class Context {
 
   // =================== BACKPRESSURE HANDLING ===================
 
+  /**
+   * Add a Set-Cookie header — one per call, all attributes supported
+   *
+   * @example
+   * ctx.setCookie('session', id, { httpOnly: true, secure: true, sameSite: 'lax', maxAge: 3600, signed: true });
+   */
+  setCookie(name: string, value: string, options: CookieOptions = {}): this {
+    if (options.signed) {
+      const secrets = this.app ? this.app.config.cookies.secrets : [];
+      if (secrets.length === 0) {
+        throw new Error(`Cannot sign cookie "${name}" — config.cookies.secrets is empty`);
+      }
+      value = signCookie(value, secrets[0]);
+    }
+    return this.setHeader('Set-Cookie', serializeCookie(name, value, options));
+  }
+
+  /** Expire a cookie — pass the same path/domain it was set with */
+  clearCookie(name: string, options: CookieOptions = {}): this {
+    return this.setHeader(
+      'Set-Cookie',
+      serializeCookie(name, '', { ...options, signed: false, maxAge: 0, expires: new Date(0) })
+    );
+  }
+
   /**
    * Stream large data with automatic backpressure handling
    * 
@@ -440,11 +912,23 @@ export class Context {
     totalSize?: number
   ): Promise<boolean> {
     if (this.aborted || this.responded || !this.res) return false;
+    const encoding = this._negotiateEncoding(contentType, totalSize);
     this.responded = true;
 
     const code = status !== undefined ? status : this.statusCode;
     this._flush(code);
     this.res.writeHeader('Content-Type', contentType);
+
+    if (encoding) {
+      this.res.writeHeader('Content-Encoding', encoding);
+      totalSize = undefined; // Compressed length unknown up front — sent chunked
+    }
+
+    // HEAD — headers only, never pull from the source
+    if (this.method === 'HEAD') {
+      this.res.endWithoutBody(totalSize);
+      return true;
+    }
     
     if (totalSize !== undefined) {
       this.res.writeHeader('Content-Length', totalSize.toString());
@@ -463,13 +947,20 @@ export class Context {
             }
           }
         };
+    const body = encoding ? this.compression!.compressStream(iterable, encoding) : iterable;
 
     try {
-      for await (const chunk of iterable) {
+      for await (const chunk of body) {
         if (this.aborted || !this.res) return false;
 
+        if (totalSize === undefined) {
+          // Unknown length — chunked write; uWS buffers what the socket can't take yet
+          if (!this.res.write(chunk) && !(await this._waitForDrain())) return false;
+          continue;
+        }
+
         // Try to write the chunk
-        const [ok, done] = this.res.tryEnd(chunk, totalSize || 0);
+        const [ok, done] = this.res.tryEnd(chunk, totalSize);
 
         if (done) {
           // All data sent successfully
@@ -498,11 +989,63 @@ export class Context {
     }
   }
 
+  /**
+   * Open a Server-Sent Events stream — await sse.closed to keep the connection
+   * Closed on client abort or when the handler's context is released
+   *
+   * @example
+   * app.get('/events', async (ctx) => {
+   *   const sse = ctx.sse({ retry: 3000 });
+   *   const off = bus.on('notify', (n) => sse.send({ event: 'notify', data: n, id: n.id }));
+   *   sse.onClose(off);
+   *   await sse.closed;
+   * });
+   */
+  sse(options: SseOptions = {}): SseStream {
+    const lastEventId = this.getHeader('last-event-id') ?? null;
+    const res = this.res;
+    if (this.aborted || this.responded || !res) return new SseStream(null, null, lastEventId);
+    this.responded = true;
+
+    res.cork(() => {
+      this._flush(this.statusCode);
+      res.writeHeader('Content-Type', 'text/event-stream; charset=utf-8');
+      res.writeHeader('Cache-Control', 'no-cache');
+      res.writeHeader('X-Accel-Buffering', 'no'); // Disable nginx response buffering
+      if (this.method === 'HEAD') res.endWithoutBody();
+    });
+    if (this.method === 'HEAD') return new SseStream(null, null, lastEventId);
+
+    // uWS keeps one onWritable handler — writes during a drain share its promise
+    let draining: Promise<boolean> | null = null;
+    const write = (chunk: string): boolean | Promise<boolean> => {
+      if (this.res !== res) return false; // Aborted or released
+      let ok = true;
+      res.cork(() => {
+        ok = res.write(chunk);
+      });
+      if (ok || draining) return draining || true;
+      draining = this._waitForDrain().then((drained) => {
+        draining = null;
+        return drained;
+      });
+      return draining;
+    };
+    const end = (): void => {
+      if (this.res === res) res.cork(() => res.end());
+    };
+
+    const stream = new SseStream(write, end, lastEventId, options);
+    this.onCleanup(() => stream.close());
+    return stream;
+  }
+
   /**
    * Wait for socket to drain (client to catch up)
    * Called automatically by stream() when backpressure occurs
+   * Without remainingData the chunk was already buffered by res.write() — only wait
    */
-  private _waitForDrain(remainingData: Buffer): Promise<boolean> {
+  private _waitForDrain(remainingData?: Buffer): Promise<boolean> {
     return new Promise((resolve) => {
       if (this.aborted || !this.res) {
         resolve(false);
@@ -516,6 +1059,11 @@ export class Context {
           return false;
         }
 
+        if (!remainingData) {
+          resolve(true);
+          return false; // Remove handler
+        }
+
         // Try to write remaining data from offset
         const chunk = remainingData.subarray(offset);
         const [ok, done] = this.res.tryEnd(chunk, remainingData.length);
@@ -605,6 +1153,7 @@ export class ContextPool {
   /** Release context back to pool — O(1) */
   release(ctx: Context): void {
     ctx.reset();
+    ctx.app = this._app; // Mounted sub-apps swap it during their chain
     if (this._pool.length < this._maxSize) {
       this._pool.push(ctx);
     }
@@ -0,0 +1,156 @@
+/**
+ * Cookies — parsing, Set-Cookie serialization and HMAC signing
+ *
+ * Design decisions:
+ * - Cookie header parsed lazily, once per request (ctx.cookies)
+ * - Values URI-encoded on write, decoded on read — malformed encodings kept raw
+ * - Signed values are "s:<value>.<hmac>" (HMAC-SHA256, base64url)
+ * - Key rotation: the first secret signs, every secret verifies
+ * - Invalid attribute combinations throw at setCookie() — browsers drop them silently
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export interface CookieOptions {
+  /** Lifetime in seconds — 0 or negative expires the cookie now */
+  maxAge?: number;
+  expires?: Date;
+  domain?: string;
+  /** Default: "/" */
+  path?: string;
+  secure?: boolean;
+  httpOnly?: boolean;
+  sameSite?: 'strict' | 'lax' | 'none' | 'Strict' | 'Lax' | 'None';
+  /** CHIPS partitioned cookie — requires secure */
+  partitioned?: boolean;
+  priority?: 'low' | 'medium' | 'high';
+  /** Sign with the first of config.cookies.secrets — read back via ctx.signedCookies */
+  signed?: boolean;
+}
+
+/** RFC 6265 cookie-name (token) */
+const COOKIE_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+/** Attribute values may not contain ';' or control characters */
+const ATTRIBUTE_VALUE = /^[^\x00-\x1f\x7f;]*$/;
+
+const SIGNED_PREFIX = 's:';
+
+function safeDecode(value: string): string {
+  if (value.indexOf('%') === -1) return value;
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+const hasOwn = Object.prototype.hasOwnProperty;
+
+/**
+ * Parse a Cookie header — first occurrence of a name wins
+ * "a=1; b=%20x" => { a: "1", b: " x" }
+ */
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  let start = 0;
+  while (start < header.length) {
+    let end = header.indexOf(';', start);
+    if (end === -1) end = header.length;
+
+    const eq = header.indexOf('=', start);
+    if (eq !== -1 && eq < end) {
+      const name = header.substring(start, eq).trim();
+      // hasOwn — "constructor" / "toString" would otherwise hit Object.prototype
+      if (name && name !== '__proto__' && !hasOwn.call(cookies, name)) {
+        let value = header.substring(eq + 1, end).trim();
+        if (value.charCodeAt(0) === 34 /* '"' */ && value.charCodeAt(value.length - 1) === 34) {
+          value = value.substring(1, value.length - 1);
+        }
+        cookies[name] = safeDecode(value);
+      }
+    }
+    start = end + 1;
+  }
+
+  return cookies;
+}
+
+/**
+ * Build a Set-Cookie header value
+ * @throws On an invalid name/attribute or SameSite=None / Partitioned without Secure
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+  if (!COOKIE_NAME.test(name)) {
+    throw new Error(`Invalid cookie name: ${name}`);
+  }
+
+  let cookie = `${name}=${encodeURIComponent(value)}`;
+
+  if (options.maxAge !== undefined) {
+    if (!Number.isFinite(options.maxAge)) {
+      throw new Error(`Invalid maxAge for cookie "${name}": ${options.maxAge}`);
+    }
+    cookie += `; Max-Age=${Math.floor(options.maxAge)}`;
+  }
+  if (options.expires) cookie += `; Expires=${options.expires.toUTCString()}`;
+  if (options.domain) {
+    if (!ATTRIBUTE_VALUE.test(options.domain)) throw new Error(`Invalid domain for cookie "${name}"`);
+    cookie += `; Domain=${options.domain}`;
+  }
+
+  const path = options.path ?? '/';
+  if (!ATTRIBUTE_VALUE.test(path)) throw new Error(`Invalid path for cookie "${name}"`);
+  cookie += `; Path=${path}`;
+
+  if (options.httpOnly) cookie += '; HttpOnly';
+  if (options.secure) cookie += '; Secure';
+
+  if (options.sameSite) {
+    const sameSite = options.sameSite.toLowerCase();
+    if (sameSite === 'none' && !options.secure) {
+      throw new Error(`Cookie "${name}": SameSite=None requires secure: true`);
+    }
+    cookie += `; SameSite=${sameSite === 'strict' ? 'Strict' : sameSite === 'lax' ? 'Lax' : 'None'}`;
+  }
+
+  if (options.partitioned) {
+    if (!options.secure) throw new Error(`Cookie "${name}": Partitioned requires secure: true`);
+    cookie += '; Partitioned';
+  }
+
+  if (options.priority) {
+    cookie += `; Priority=${options.priority.charAt(0).toUpperCase()}${options.priority.substring(1)}`;
+  }
+
+  return cookie;
+}
+
+function hmac(value: string, secret: string): string {
+  return createHmac('sha256', secret).update(value).digest('base64url');
+}
+
+/** "value" => "s:value.<hmac>" */
+export function signCookie(value: string, secret: string): string {
+  return `${SIGNED_PREFIX}${value}.${hmac(value, secret)}`;
+}
+
+/**
+ * Verify a signed value against every secret (newest first)
+ * Returns the original value, or false if unsigned or tampered
+ */
+export function unsignCookie(signed: string, secrets: readonly string[]): string | false {
+  if (!signed.startsWith(SIGNED_PREFIX)) return false;
+  const dot = signed.lastIndexOf('.');
+  if (dot <= SIGNED_PREFIX.length - 1) return false;
+
+  const value = signed.substring(SIGNED_PREFIX.length, dot);
+  const given = Buffer.from(signed.substring(dot + 1));
+
+  for (const secret of secrets) {
+    const expected = Buffer.from(hmac(value, secret));
+    if (expected.length === given.length && timingSafeEqual(expected, given)) return value;
+  }
+  return false;
+}
@@ -69,10 +69,22 @@ export function notFound(msg = 'Not Found', code?: string): AppError {
   return new AppError(404, msg, code);
 }
 
+export function notAcceptable(msg = 'Not Acceptable', code?: string): AppError {
+  return new AppError(406, msg, code);
+}
+
 export function conflict(msg = 'Conflict', code?: string): AppError {
   return new AppError(409, msg, code);
 }
 
+export function payloadTooLarge(msg = 'Payload Too Large', code?: string): AppError {
+  return new AppError(413, msg, code);
+}
+
+export function unsupportedMediaType(msg = 'Unsupported Media Type', code?: string): AppError {
+  return new AppError(415, msg, code);
+}
+
 export function tooManyRequests(msg = 'Too Many Requests', code?: string): AppError {
   return new AppError(429, msg, code);
 }
@@ -0,0 +1,237 @@
+/**
+ * Route Groups — shared prefix and scoped middleware
+ *
+ * Design decisions:
+ * - Resolved entirely at registration time — a group is gone once routes are added
+ * - Group middleware prepended into the route's middleware array (no extra pipeline)
+ * - Nestable: child groups inherit the parent prefix, middleware, host and version
+ * - Registers through a callback — no access to App internals
+ * - State declared by group middleware types every handler inside
+ *
+ * Cost per request: zero
+ */
+
+import type { Handler, PathParams, Router, RouteHandlers, RouteMeta, RouteOptions, RouteVersion } from './router.js';
+import type { AddedState, MiddlewareFn, StateOf } from './middleware.js';
+import type { DefaultState } from './context.js';
+
+export type GroupFn<State extends DefaultState = DefaultState, Prefix extends string = string> = (
+  group: RouteGroup<State, Prefix>
+) => void;
+
+/** Group middleware, then the callback — typed with the state the middleware declare */
+export type GroupArgs<State extends DefaultState, M extends MiddlewareFn<State>[], Prefix extends string = string> = [
+  ...M,
+  GroupFn<State & AddedState<M>, Prefix>,
+];
+
+/** Registers a fully-resolved route (prefixed path, middleware + handler last, host/version) */
+export type RouteRegistrar = (
+  method: string,
+  path: string,
+  handlers: Handler[],
+  options: RouteOptions
+) => void;
+
+const ALL_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'HEAD'];
+
+/**
+ * Join a group prefix and a route path
+ * joinPath('/api/v1', '/users') => "/api/v1/users"
+ * joinPath('/api/v1', '/')      => "/api/v1"
+ */
+export function joinPath(prefix: string, path: string): string {
+  let base = prefix;
+  if (base.length > 0 && base.charCodeAt(0) !== 47 /* '/' */) base = '/' + base;
+  while (base.length > 1 && base.charCodeAt(base.length - 1) === 47) base = base.substring(0, base.length - 1);
+  if (base === '/') base = '';
+
+  if (path === '' || path === '/') return base || '/';
+  return path.charCodeAt(0) === 47 ? base + path : `${base}/${path}`;
+}
+
+/** Prefix is the literal path prefix, when known — it decides which routes may carry number params */
+export class RouteGroup<State extends DefaultState = DefaultState, Prefix extends string = string> {
+  readonly prefix: string;
+  /** Host and version bindings applied to every route in the group */
+  readonly bindings: RouteOptions;
+  private _middleware: MiddlewareFn[];
+  private _register: RouteRegistrar;
+  private _router: Router;
+  private _lastPath: string | null = null;
+
+  constructor(
+    prefix: string,
+    middleware: MiddlewareFn[],
+    register: RouteRegistrar,
+    router: Router,
+    options: RouteOptions = {}
+  ) {
+    this.prefix = joinPath(prefix, '');
+    this.bindings = options;
+    this._middleware = middleware;
+    this._register = register;
+    this._router = router;
+  }
+
+  /** Add group middleware — applies to routes registered after this call */
+  use<M extends MiddlewareFn<State>>(middleware: M): RouteGroup<State & StateOf<M>, Prefix> {
+    this._middleware.push(middleware as MiddlewareFn);
+    return this as RouteGroup<State & StateOf<M>, Prefix>;
+  }
+
+  get<Path extends string, M extends MiddlewareFn<State>[]>(
+    path: Path,
+    ...handlers: RouteHandlers<State, M, PathParams<Path, Prefix>>
+  ): this {
+    return this._route('GET', path, handlers as Handler[]);
+  }
+
+  post<Path extends string, M extends MiddlewareFn<State>[]>(
+    path: Path,
+    ...handlers: RouteHandlers<State, M, PathParams<Path, Prefix>>
+  ): this {
+    return this._route('POST', path, handlers as Handler[]);
+  }
+
+  put<Path extends string, M extends MiddlewareFn<State>[]>(
+    path: Path,
+    ...handlers: RouteHandlers<State, M, PathParams<Path, Prefix>>
+  ): this {
+    return this._route('PUT', path, handlers as Handler[]);
+  }
+
+  patch<Path extends string, M extends MiddlewareFn<State>[]>(
+    path: Path,
+    ...handlers: RouteHandlers<State, M, PathParams<Path, Prefix>>
+  ): this {
+    return this._route('PATCH', path, handlers as Handler[]);
+  }
+
+  delete<Path extends string, M extends MiddlewareFn<State>[]>(
+    path: Path,
+    ...handlers: RouteHandlers<State, M, PathParams<Path, Prefix>>
+  ): this {
+    return this._route('DELETE', path, handlers as Handler[]);
+  }
+
+  options<Path extends string, M extends MiddlewareFn<State>[]>(
+    path: Path,
+    ...handlers: RouteHandlers<State, M, PathParams<Path, Prefix>>
+  ): this {
+    return this._route('OPTIONS', path, handlers as Handler[]);
+  }
+
+  head<Path extends string, M extends MiddlewareFn<State>[]>(
+    path: Path,
+    ...handlers: RouteHandlers<State, M, PathParams<Path, Prefix>>
+  ): this {
+    return this._route('HEAD', path, handlers as Handler[]);
+  }
+
+  all<Path extends string, M extends MiddlewareFn<State>[]>(
+    path: Path,
+    ...handlers: RouteHandlers<State, M, PathParams<Path, Prefix>>
+  ): this {
+    for (const method of ALL_METHODS) {
+      this._route(method, path, handlers as Handler[]);
+    }
+    return this;
+  }
+
+  /**
+   * Name the most recently registered route
+   *
+   * @example
+   * group.get('/:id', showUser).as('users.show');
+   */
+  as(name: string): this {
+    this._router.name(name, this._requireLast(`name route "${name}"`));
+    return this;
+  }
+
+  /** Attach metadata to the most recently registered route — shown by routes() */
+  meta(meta: RouteMeta): this {
+    this._router.meta(this._requireLast('attach route metadata'), meta);
+    return this;
+  }
+
+  /**
+   * Nested group — inherits this group's prefix and middleware
+   *
+   * @example
+   * group.group('/admin', requireAdmin, (admin) => {
+   *   admin.get('/stats', statsHandler);
+   * });
+   */
+  group<Sub extends string, M extends MiddlewareFn<State>[]>(
+    prefix: Sub,
+    ...args: GroupArgs<State, M, `${Prefix}${Sub}`>
+  ): this {
+    const fn = args[args.length - 1] as GroupFn<State & AddedState<M>, `${Prefix}${Sub}`>;
+    const middleware = args.slice(0, -1) as MiddlewareFn[];
+    fn(
+      new RouteGroup(
+        joinPath(this.prefix, prefix),
+        [...this._middleware, ...middleware],
+        this._register,
+        this._router,
+        this.bindings
+      )
+    );
+    return this;
+  }
+
+  /**
+   * Nested group bound to a host pattern — keeps this group's prefix and middleware
+   *
+   * @example
+   * v1.host('admin.example.com', (admin) => {
+   *   admin.get('/audit', auditHandler);
+   * });
+   */
+  host<M extends MiddlewareFn<State>[]>(pattern: string, ...args: GroupArgs<State, M, Prefix>): this {
+    const fn = args[args.length - 1] as GroupFn<State & AddedState<M>, Prefix>;
+    const middleware = args.slice(0, -1) as MiddlewareFn[];
+    fn(
+      new RouteGroup(this.prefix, [...this._middleware, ...middleware], this._register, this._router, {
+        ...this.bindings,
+        host: pattern,
+      })
+    );
+    return this;
+  }
+
+  /**
+   * Nested group bound to an API version — keeps this group's prefix, middleware and host
+   *
+   * @example
+   * api.version({ version: '1', deprecated: true, sunset: '2027-01-01' }, (v1) => {
+   *   v1.get('/users', listUsersV1);
+   * });
+   */
+  version<M extends MiddlewareFn<State>[]>(version: string | RouteVersion, ...args: GroupArgs<State, M, Prefix>): this {
+    const fn = args[args.length - 1] as GroupFn<State & AddedState<M>, Prefix>;
+    const middleware = args.slice(0, -1) as MiddlewareFn[];
+    fn(
+      new RouteGroup(this.prefix, [...this._middleware, ...middleware], this._register, this._router, {
+        ...this.bindings,
+        version: typeof version === 'string' ? { version } : version,
+      })
+    );
+    return this;
+  }
+
+  private _requireLast(action: string): string {
+    if (this._lastPath === null) {
+      throw new Error(`Cannot ${action} — no route registered in this group yet`);
+    }
+    return this._lastPath;
+  }
+
+  private _route(method: string, path: string, handlers: Handler[]): this {
+    this._lastPath = joinPath(this.prefix, path);
+    this._register(method, this._lastPath, [...this._middleware, ...handlers], this.bindings);
+    return this;
+  }
+}
@@ -12,13 +12,48 @@
  * Cost per request: 1 integer increment per middleware step
  */
 
-import type { Context } from './context.js';
+import type { Context, DefaultState } from './context.js';
+import type { ParamValue } from './router.js';
 
 /**
  * Unified function type for both middleware and handlers.
  * Middleware calls next(); final handlers simply don't.
+ * Generics type ctx.state, ctx.params and ctx.body — see Context.
  */
-export type MiddlewareFn = (ctx: Context, next: () => Promise<void> | void) => Promise<void> | void;
+export type MiddlewareFn<
+  State extends DefaultState = DefaultState,
+  Params extends Record<string, ParamValue> = Record<string, ParamValue>,
+  Body = unknown
+> = (ctx: Context<State, Params, Body>, next: () => Promise<void> | void) => Promise<void> | void;
+
+/** Type-only key carrying the state a middleware adds — never present at runtime */
+export declare const addsState: unique symbol;
+
+/**
+ * Middleware that declares the ctx.state keys it sets.
+ * Handlers registered after it (same route, app.use() chain, group) see them typed.
+ *
+ * @example
+ * function tenant(): StateMiddleware<{ tenant: string }> {
+ *   return (ctx, next) => {
+ *     ctx.state.tenant = ctx.hostname.split('.')[0];
+ *     return next();
+ *   };
+ * }
+ */
+export type StateMiddleware<Adds extends object> = MiddlewareFn & { readonly [addsState]?: Adds };
+
+/** State declared by one middleware — {} for plain MiddlewareFn */
+export type StateOf<M> = M extends { readonly [addsState]?: infer Adds }
+  ? unknown extends Adds
+    ? {}
+    : NonNullable<Adds>
+  : {};
+
+/** State declared by a middleware list, in order */
+export type AddedState<M extends readonly unknown[]> = M extends readonly [infer First, ...infer Rest]
+  ? StateOf<First> & AddedState<Rest>
+  : {};
 
 /**
  * Execute a middleware pipeline
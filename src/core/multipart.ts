@@ -0,0 +1,456 @@
+/**
+ * Streaming multipart/form-data Parser
+ *
+ * Design decisions:
+ * - Parses straight off ctx.bodyStream() — the body is never buffered whole
+ * - Boundary search with Buffer.indexOf; only a delimiter-sized tail is carried between chunks
+ * - Fields buffered (capped by maxFieldSize); files streamed as AsyncIterable<Buffer>
+ * - Stops pulling while a file consumer lags behind — bodyStream() pauses the socket
+ * - readMultipart() writes files to a temp dir — deleted when the context is released or aborted
+ * - Every limit answers 413; malformed bodies answer 400
+ */
+
+import { createWriteStream } from 'node:fs';
+import { unlink } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { Context } from './context.js';
+import { AsyncQueue } from './async-queue.js';
+import { badRequest, payloadTooLarge } from './errors.js';
+
+export interface MultipartOptions {
+  /** Max bytes per file (default: unlimited — total still capped) */
+  maxFileSize?: number;
+  /** Max bytes for the whole body (default: ctx.bodyLimit) */
+  maxTotalSize?: number;
+  /** Max number of file parts (default: unlimited) */
+  maxFiles?: number;
+  /** Max number of field parts (default: 1000) */
+  maxFields?: number;
+  /** Max bytes per field value (default: 1MB) */
+  maxFieldSize?: number;
+  /** Where readMultipart() writes files (default: os.tmpdir()) */
+  tmpDir?: string;
+}
+
+export interface MultipartField {
+  kind: 'field';
+  name: string;
+  value: string;
+}
+
+export interface MultipartFile {
+  kind: 'file';
+  /** Form field name */
+  name: string;
+  /** Client-supplied file name — never use as a path */
+  filename: string;
+  mimeType: string;
+  /** File contents — consume it before pulling the next part, or it is skipped */
+  stream: AsyncIterable<Buffer>;
+}
+
+export type MultipartPart = MultipartField | MultipartFile;
+
+/** A file written to disk by readMultipart() */
+export interface UploadedFile {
+  name: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  /** Temp file — deleted when the request ends; move or copy it to keep it */
+  path: string;
+}
+
+export interface MultipartResult {
+  fields: Record<string, string | string[]>;
+  files: UploadedFile[];
+}
+
+interface PartHeaders {
+  name: string;
+  filename: string | null;
+  mimeType: string | null;
+}
+
+interface ParserHandlers {
+  onPart(headers: PartHeaders): void;
+  onData(data: Buffer): void;
+  onPartEnd(): void;
+  onEnd(): void;
+}
+
+const MAX_HEADER_SIZE = 16 * 1024;
+const CRLFCRLF = Buffer.from('\r\n\r\n');
+/** Buffered file chunks before the parser stops pulling */
+const HIGH_WATER_CHUNKS = 16;
+
+const hasOwn = Object.prototype.hasOwnProperty;
+
+const enum State {
+  Preamble,
+  AfterDelimiter,
+  Headers,
+  Body,
+  Done,
+}
+
+/**
+ * Extract the boundary from a multipart Content-Type
+ * 'multipart/form-data; boundary="abc"' => "abc"
+ */
+export function multipartBoundary(contentType: string | undefined): string | null {
+  if (!contentType) return null;
+  const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  if (!match) return null;
+  return match[1] || match[2];
+}
+
+/** 'form-data; name="avatar"; filename="me.png"' => { name: "avatar", filename: "me.png" } */
+function dispositionParams(value: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  const re = /;\s*([^=;\s]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(value)) !== null) {
+    const key = match[1].toLowerCase();
+    let param = match[2] !== undefined ? match[2].replace(/\\(.)/g, '$1') : match[3].trim();
+    if (key === 'filename*') {
+      // RFC 5987: utf-8''na%C3%AFve.txt
+      const quote = param.indexOf("''");
+      try {
+        param = decodeURIComponent(quote === -1 ? param : param.substring(quote + 2));
+      } catch {
+        continue;
+      }
+    }
+    params[key] = param;
+  }
+  return params;
+}
+
+function parsePartHeaders(raw: string): PartHeaders {
+  let disposition: string | null = null;
+  let mimeType: string | null = null;
+
+  for (const line of raw.split('\r\n')) {
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    const key = line.substring(0, colon).trim().toLowerCase();
+    const value = line.substring(colon + 1).trim();
+    if (key === 'content-disposition') disposition = value;
+    else if (key === 'content-type') mimeType = value;
+  }
+
+  if (disposition === null) {
+    throw badRequest('Multipart part without Content-Disposition', 'INVALID_MULTIPART');
+  }
+  const params = dispositionParams(disposition);
+  if (params.name === undefined) {
+    throw badRequest('Multipart part without a field name', 'INVALID_MULTIPART');
+  }
+
+  const filename = params['filename*'] ?? params.filename;
+  return { name: params.name, filename: filename === undefined ? null : filename, mimeType };
+}
+
+/**
+ * Incremental multipart parser — push chunks in, get part callbacks out
+ * Throws AppError (400) on malformed input
+ */
+export class MultipartParser {
+  private _delimiter: Buffer;
+  private _handlers: ParserHandlers;
+  /** Leading CRLF lets the first boundary match the same "\r\n--boundary" delimiter */
+  private _buf: Buffer = Buffer.from('\r\n');
+  private _state = State.Preamble;
+
+  constructor(boundary: string, handlers: ParserHandlers) {
+    this._delimiter = Buffer.from(`\r\n--${boundary}`);
+    this._handlers = handlers;
+  }
+
+  get done(): boolean {
+    return this._state === State.Done;
+  }
+
+  write(chunk: Buffer): void {
+    if (this._state === State.Done) return; // Epilogue — ignored
+    this._buf = this._buf.length > 0 ? Buffer.concat([this._buf, chunk]) : chunk;
+    const delim = this._delimiter;
+
+    for (;;) {
+      const buf = this._buf;
+
+      switch (this._state) {
+        case State.Preamble: {
+          const idx = buf.indexOf(delim);
+          if (idx === -1) {
+            this._buf = buf.subarray(Math.max(0, buf.length - delim.length + 1));
+            return;
+          }
+          this._buf = buf.subarray(idx + delim.length);
+          this._state = State.AfterDelimiter;
+          break;
+        }
+
+        case State.AfterDelimiter: {
+          if (buf.length < 2) return;
+          if (buf[0] === 45 /* '-' */ && buf[1] === 45) {
+            this._state = State.Done;
+            this._buf = Buffer.alloc(0);
+            this._handlers.onEnd();
+            return;
+          }
+          if (buf[0] !== 13 /* '\r' */ || buf[1] !== 10 /* '\n' */) {
+            throw badRequest('Malformed multipart boundary', 'INVALID_MULTIPART');
+          }
+          this._buf = buf.subarray(2);
+          this._state = State.Headers;
+          break;
+        }
+
+        case State.Headers: {
+          const idx = buf.indexOf(CRLFCRLF);
+          if (idx === -1) {
+            if (buf.length > MAX_HEADER_SIZE) {
+              throw badRequest('Multipart part headers too large', 'INVALID_MULTIPART');
+            }
+            return;
+          }
+          const headers = parsePartHeaders(buf.toString('utf8', 0, idx));
+          this._buf = buf.subarray(idx + 4);
+          this._state = State.Body;
+          this._handlers.onPart(headers);
+          break;
+        }
+
+        case State.Body: {
+          const idx = buf.indexOf(delim);
+          if (idx === -1) {
+            // Keep a tail that could be the start of a split delimiter
+            const safe = buf.length - delim.length + 1;
+            if (safe > 0) {
+              this._handlers.onData(buf.subarray(0, safe));
+              this._buf = buf.subarray(safe);
+            }
+            return;
+          }
+          if (idx > 0) this._handlers.onData(buf.subarray(0, idx));
+          this._handlers.onPartEnd();
+          this._buf = buf.subarray(idx + delim.length);
+          this._state = State.AfterDelimiter;
+          break;
+        }
+
+        default:
+          return;
+      }
+    }
+  }
+
+  /** Call after the last chunk — throws if the closing boundary never came */
+  end(): void {
+    if (this._state !== State.Done) {
+      throw badRequest('Unexpected end of multipart body', 'INVALID_MULTIPART');
+    }
+  }
+}
+
+/**
+ * Stream the parts of a multipart/form-data request
+ *
+ * Fields arrive whole; files as an AsyncIterable<Buffer> that must be consumed
+ * before the next part is pulled (an unconsumed file is skipped).
+ *
+ * @example
+ * for await (const part of ctx.multipart({ maxFileSize: 5 * 1024 * 1024 })) {
+ *   if (part.kind === 'file') await uploadToS3(part.filename, part.stream);
+ *   else fields[part.name] = part.value;
+ * }
+ */
+export function parseMultipart(ctx: Context, options: MultipartOptions = {}): AsyncIterable<MultipartPart> {
+  const parts = new AsyncQueue<MultipartPart>();
+
+  if (ctx.aborted || !ctx.res) {
+    parts.end();
+    return parts;
+  }
+
+  const boundary = multipartBoundary(ctx.getHeader('content-type'));
+  if (!ctx.is('multipart/form-data') || boundary === null) {
+    parts.fail(badRequest('Expected multipart/form-data with a boundary', 'INVALID_MULTIPART'));
+    return parts;
+  }
+
+  const maxFileSize = options.maxFileSize ?? Infinity;
+  const maxFiles = options.maxFiles ?? Infinity;
+  const maxFields = options.maxFields ?? 1000;
+  const maxFieldSize = options.maxFieldSize ?? 1024 * 1024;
+
+  let file: AsyncQueue<Buffer> | null = null;
+  let fileSize = 0;
+  let fileCount = 0;
+  let field: PartHeaders | null = null;
+  let fieldChunks: Buffer[] = [];
+  let fieldSize = 0;
+  let fieldCount = 0;
+
+  const parser = new MultipartParser(boundary, {
+    onPart(headers) {
+      if (headers.filename !== null) {
+        if (++fileCount > maxFiles) {
+          throw payloadTooLarge(`Too many files (max ${maxFiles})`, 'TOO_MANY_FILES');
+        }
+        file = new AsyncQueue<Buffer>();
+        fileSize = 0;
+        parts.push({
+          kind: 'file',
+          name: headers.name,
+          filename: headers.filename,
+          mimeType: headers.mimeType || 'application/octet-stream',
+          stream: file,
+        });
+      } else {
+        if (++fieldCount > maxFields) {
+          throw payloadTooLarge(`Too many fields (max ${maxFields})`, 'TOO_MANY_FIELDS');
+        }
+        field = headers;
+        fieldChunks = [];
+        fieldSize = 0;
+      }
+    },
+    onData(data) {
+      if (file) {
+        fileSize += data.length;
+        if (fileSize > maxFileSize) {
+          throw payloadTooLarge(`File exceeds ${maxFileSize} bytes`, 'FILE_TOO_LARGE');
+        }
+        file.push(data);
+      } else {
+        fieldSize += data.length;
+        if (fieldSize > maxFieldSize) {
+          throw payloadTooLarge(`Field exceeds ${maxFieldSize} bytes`, 'FIELD_TOO_LARGE');
+        }
+        fieldChunks.push(data);
+      }
+    },
+    onPartEnd() {
+      if (file) {
+        file.end();
+        file = null;
+      } else if (field) {
+        parts.push({ kind: 'field', name: field.name, value: Buffer.concat(fieldChunks).toString('utf8') });
+        field = null;
+        fieldChunks = [];
+      }
+    },
+    onEnd() {
+      parts.end();
+    },
+  });
+
+  const fail = (err: unknown): void => {
+    if (file) file.fail(err);
+    parts.fail(err);
+  };
+
+  // Abort or release — ctx may serve another request after any await below,
+  // so the pump only reads this flag, never ctx.aborted
+  let released = false;
+  ctx.onCleanup(() => {
+    released = true;
+    fail(badRequest('Request aborted', 'ABORTED')); // Wakes a pump waiting on a file
+  });
+
+  // Pull the body through the parser — waiting on a lagging file consumer
+  // leaves chunks unread, and bodyStream() pauses the socket
+  const pump = async (): Promise<void> => {
+    try {
+      for await (const chunk of ctx.bodyStream({ limit: options.maxTotalSize })) {
+        parser.write(chunk);
+        const pending: AsyncQueue<Buffer> | null = file;
+        if (pending !== null && pending.length >= HIGH_WATER_CHUNKS) await pending.drained();
+        // Consumer stopped pulling parts, or the request is gone — stop reading
+        if (released || parts.closed) return;
+      }
+      if (released) return;
+      parser.end();
+    } catch (err) {
+      fail(err);
+    }
+  };
+  void pump();
+
+  // Pulling the next part skips whatever is left of the previous file
+  let current: AsyncQueue<Buffer> | null = null;
+  return {
+    [Symbol.asyncIterator]() {
+      const iterator = parts[Symbol.asyncIterator]();
+      return {
+        next: async () => {
+          if (current !== null) current.discard();
+          const result = await iterator.next();
+          current = !result.done && result.value.kind === 'file' ? (result.value.stream as AsyncQueue<Buffer>) : null;
+          return result;
+        },
+        // Leaving the loop early drops the open file too, so the pump never waits on it
+        return: () => {
+          if (current !== null) current.discard();
+          current = null;
+          return iterator.return!();
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Parse a multipart/form-data request, writing files to a temp dir
+ *
+ * Repeated field names become arrays. Temp files are removed when the
+ * context is released or the client aborts — move them to keep them.
+ *
+ * @example
+ * const { fields, files } = await ctx.readMultipart({ maxFileSize: 2 * 1024 * 1024, maxFiles: 1 });
+ * await rename(files[0].path, `/data/avatars/${fields.userId}.png`);
+ */
+export async function readMultipart(ctx: Context, options: MultipartOptions = {}): Promise<MultipartResult> {
+  const fields: Record<string, string | string[]> = {};
+  const files: UploadedFile[] = [];
+  const dir = options.tmpDir ?? tmpdir();
+
+  for await (const part of parseMultipart(ctx, options)) {
+    if (part.kind === 'field') {
+      if (part.name === '__proto__') continue;
+      // hasOwn — "constructor" / "toString" would otherwise hit Object.prototype
+      if (!hasOwn.call(fields, part.name)) {
+        fields[part.name] = part.value;
+        continue;
+      }
+      const existing = fields[part.name];
+      if (Array.isArray(existing)) existing.push(part.value);
+      else fields[part.name] = [existing, part.value];
+      continue;
+    }
+
+    const path = join(dir, `blazy-upload-${randomUUID()}`);
+    ctx.onCleanup(() => {
+      unlink(path).catch(() => {});
+    });
+
+    const out = createWriteStream(path);
+    await pipeline(Readable.from(part.stream), out);
+    files.push({
+      name: part.name,
+      filename: part.filename,
+      mimeType: part.mimeType,
+      size: out.bytesWritten,
+      path,
+    });
+  }
+
+  return { fields, files };
+}
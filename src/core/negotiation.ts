@@ -0,0 +1,160 @@
+/**
+ * Content Negotiation — Accept, Accept-Language, Accept-Encoding (RFC 9110 §12)
+ *
+ * Design decisions:
+ * - Each offer takes the q of its most specific matching range: "text/html" > "text/*" > "*\/*"
+ * - q=0 excludes an offer, even when a wildcard would accept it
+ * - Best offer: highest q, then most specific match, then the caller's order
+ *   (header order carries no meaning in RFC 9110)
+ * - A missing header accepts every offer — the first one wins
+ * - Offers may use short names: "json", "html", "text", "xml", "protobuf"
+ */
+
+const MEDIA_ALIASES: Record<string, string> = {
+  json: 'application/json',
+  html: 'text/html',
+  text: 'text/plain',
+  xml: 'application/xml',
+  urlencoded: 'application/x-www-form-urlencoded',
+  protobuf: 'application/x-protobuf',
+};
+
+interface AcceptRange {
+  /** Lowercased value before parameters — "text/html", "en-us", "gzip" */
+  value: string;
+  /** Media type parameters (before q) — matched against the offer's */
+  params: [string, string][];
+  q: number;
+}
+
+/** "text/html;level=1;q=0.5, *\/*;q=0.1" => ranges, in header order */
+function parseAccept(header: string): AcceptRange[] {
+  const ranges: AcceptRange[] = [];
+  for (const part of header.split(',')) {
+    const pieces = part.split(';');
+    const value = pieces[0].trim().toLowerCase();
+    if (!value) continue;
+
+    const range: AcceptRange = { value, params: [], q: 1 };
+    for (let i = 1; i < pieces.length; i++) {
+      const eq = pieces[i].indexOf('=');
+      if (eq === -1) continue;
+      const key = pieces[i].substring(0, eq).trim().toLowerCase();
+      const val = pieces[i].substring(eq + 1).trim();
+      if (key === 'q') {
+        const q = parseFloat(val);
+        range.q = q >= 0 && q <= 1 ? q : 0;
+        break; // Anything after q is an accept-extension
+      }
+      range.params.push([key, val.replace(/^"|"$/g, '').toLowerCase()]);
+    }
+    ranges.push(range);
+  }
+  return ranges;
+}
+
+/** How specifically a range matches an offer — -1 for no match */
+type Matcher = (range: AcceptRange, offer: string) => number;
+
+const matchMediaType: Matcher = (range, offer) => {
+  const semi = offer.indexOf(';');
+  const type = (semi === -1 ? offer : offer.substring(0, semi)).trim();
+  const slash = type.indexOf('/');
+  const rangeSlash = range.value.indexOf('/');
+  if (slash === -1 || rangeSlash === -1) return -1;
+
+  let specificity: number;
+  if (range.value === '*/*') specificity = 0;
+  else if (range.value.endsWith('/*') && range.value.substring(0, rangeSlash) === type.substring(0, slash)) specificity = 1;
+  else if (range.value === type) specificity = 2;
+  else return -1;
+
+  // "text/html;level=1" only matches offers carrying the same parameters
+  if (range.params.length > 0) {
+    const offerParams = semi === -1 ? '' : offer.substring(semi).toLowerCase().replace(/\s+/g, '');
+    for (const [key, val] of range.params) {
+      if (!offerParams.includes(`;${key}=${val}`)) return -1;
+    }
+    specificity += range.params.length;
+  }
+  return specificity;
+};
+
+const matchLanguage: Matcher = (range, offer) => {
+  if (range.value === '*') return 0;
+  if (range.value === offer) return 2;
+  // RFC 4647 basic filtering — "en" matches "en-us"
+  return offer.startsWith(range.value + '-') ? 1 : -1;
+};
+
+const matchToken: Matcher = (range, offer) => {
+  if (range.value === '*') return 0;
+  return range.value === offer ? 1 : -1;
+};
+
+/**
+ * Order offers by preference — unacceptable ones dropped
+ * @param normalize Turns an offer into the comparable form
+ */
+function rank(
+  ranges: AcceptRange[],
+  offers: readonly string[],
+  match: Matcher,
+  normalize: (offer: string) => string
+): string[] {
+  const scored: { offer: string; q: number; specificity: number; index: number }[] = [];
+
+  for (let index = 0; index < offers.length; index++) {
+    const offer = normalize(offers[index]);
+    let q = -1;
+    let specificity = -1;
+    for (const range of ranges) {
+      const s = match(range, offer);
+      if (s > specificity) {
+        specificity = s;
+        q = range.q;
+      }
+    }
+    if (q > 0) scored.push({ offer: offers[index], q, specificity, index });
+  }
+
+  scored.sort((a, b) => b.q - a.q || b.specificity - a.specificity || a.index - b.index);
+  return scored.map((s) => s.offer);
+}
+
+function normalizeMediaType(offer: string): string {
+  return MEDIA_ALIASES[offer] || offer.toLowerCase();
+}
+
+function lowercase(offer: string): string {
+  return offer.toLowerCase();
+}
+
+/**
+ * Offers acceptable under an Accept header, best first
+ * acceptedTypes("application/json;q=0.5, text/html", ["json", "html"]) => ["html", "json"]
+ */
+export function acceptedTypes(header: string | undefined, offers: readonly string[]): string[] {
+  if (!header) return [...offers];
+  return rank(parseAccept(header), offers, matchMediaType, normalizeMediaType);
+}
+
+/** Languages acceptable under an Accept-Language header, best first — "en" accepts "en-US" */
+export function acceptedLanguages(header: string | undefined, offers: readonly string[]): string[] {
+  if (!header) return [...offers];
+  return rank(parseAccept(header), offers, matchLanguage, lowercase);
+}
+
+/**
+ * Encodings acceptable under an Accept-Encoding header, best first
+ * "identity" stays acceptable unless excluded with q=0 (directly or via "*;q=0")
+ */
+export function acceptedEncodings(header: string | undefined, offers: readonly string[]): string[] {
+  if (header === undefined) return [...offers];
+  const ranges = parseAccept(header);
+  for (const range of ranges) if (range.value === 'x-gzip') range.value = 'gzip';
+  if (!ranges.some((r) => r.value === 'identity' || r.value === '*')) {
+    ranges.push({ value: 'identity', params: [], q: 0.001 });
+  }
+  return rank(ranges, offers, matchToken, lowercase);
+}
@@ -0,0 +1,222 @@
+/**
+ * Trusted Proxies — client address, protocol and host behind reverse proxies
+ *
+ * Design decisions:
+ * - Forwarding headers are believed only from trusted hops; the socket peer is hop 0
+ * - Trust by hop count, or by address/CIDR list ("10.0.0.0/8", "loopback", "::1")
+ * - RFC 7239 Forwarded wins over X-Forwarded-For / -Proto / -Host when sent
+ * - IPv4-mapped IPv6 ("::ffff:10.0.0.1", "::ffff:a00:1") matches and reports as IPv4
+ * - Compiled once per app — per request it is a few byte comparisons
+ */
+
+/** true/false, a hop count, or addresses/CIDR ranges (comma-separated string or array) */
+export type TrustProxy = boolean | number | string | readonly string[];
+
+/** Decides whether the proxy at `addr` (hop 0 = socket peer) may be believed */
+export type TrustFn = (addr: string, hop: number) => boolean;
+
+/** Named ranges, as in Express */
+const PRESETS: Record<string, string[]> = {
+  loopback: ['127.0.0.1/8', '::1/128'],
+  linklocal: ['169.254.0.0/16', 'fe80::/10'],
+  uniquelocal: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7'],
+};
+
+function parseIPv4(text: string): number[] | null {
+  const parts = text.split('.');
+  if (parts.length !== 4) return null;
+  const bytes: number[] = [];
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const n = Number(part);
+    if (n > 255) return null;
+    bytes.push(n);
+  }
+  return bytes;
+}
+
+function parseIPv6(text: string): number[] | null {
+  const zone = text.indexOf('%');
+  if (zone !== -1) text = text.substring(0, zone);
+
+  let tail: number[] = [];
+  const lastColon = text.lastIndexOf(':');
+  if (text.indexOf('.', lastColon) !== -1) {
+    // Embedded IPv4 — "::ffff:10.0.0.1"
+    const v4 = parseIPv4(text.substring(lastColon + 1));
+    if (!v4) return null;
+    tail = v4;
+    text = text.substring(0, lastColon + 1) + '0:0';
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...new Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+  const bytes: number[] = [];
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    const n = parseInt(group, 16);
+    bytes.push(n >> 8, n & 0xff);
+  }
+  if (tail.length) bytes.splice(12, 4, ...tail);
+  return bytes;
+}
+
+function isMappedIPv4(bytes: number[]): boolean {
+  for (let i = 0; i < 10; i++) if (bytes[i] !== 0) return false;
+  return bytes[10] === 0xff && bytes[11] === 0xff;
+}
+
+/** Address bytes — 4 for IPv4 (mapped IPv6 included), 16 for IPv6, null if not an IP */
+function parseIp(text: string): number[] | null {
+  if (text.indexOf(':') === -1) return parseIPv4(text);
+  const bytes = parseIPv6(text);
+  return bytes && isMappedIPv4(bytes) ? bytes.slice(12) : bytes;
+}
+
+/** "::ffff:10.0.0.1" / "::ffff:a00:1" => "10.0.0.1" — anything else unchanged */
+export function normalizeAddress(text: string): string {
+  if (text.indexOf(':') === -1) return text;
+  const bytes = parseIPv6(text);
+  return bytes && isMappedIPv4(bytes) ? bytes.slice(12).join('.') : text;
+}
+
+interface Range {
+  bytes: number[];
+  prefix: number;
+}
+
+function parseRange(spec: string): Range {
+  const slash = spec.indexOf('/');
+  const bytes = parseIp(slash === -1 ? spec : spec.substring(0, slash));
+  if (!bytes) throw new Error(`Invalid trustProxy address: ${spec}`);
+
+  const max = bytes.length * 8;
+  let prefix = slash === -1 ? max : Number(spec.substring(slash + 1));
+  // "::ffff:10.0.0.0/104" — mapped ranges count the 96 bits we dropped
+  if (slash !== -1 && bytes.length === 4 && spec.indexOf(':') !== -1) prefix -= 96;
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > max) {
+    throw new Error(`Invalid trustProxy prefix: ${spec}`);
+  }
+  return { bytes, prefix };
+}
+
+function inRange(bytes: number[], range: Range): boolean {
+  if (bytes.length !== range.bytes.length) return false;
+  let bits = range.prefix;
+  for (let i = 0; bits > 0; i++, bits -= 8) {
+    const mask = bits >= 8 ? 0xff : (0xff << (8 - bits)) & 0xff;
+    if ((bytes[i] & mask) !== (range.bytes[i] & mask)) return false;
+  }
+  return true;
+}
+
+/**
+ * Compile a trustProxy setting into a predicate
+ * @throws On malformed addresses or prefixes — at startup, not per request
+ */
+export function compileTrust(trust: TrustProxy): TrustFn {
+  if (trust === true) return () => true;
+  if (trust === false) return () => false;
+  if (typeof trust === 'number') {
+    if (!Number.isInteger(trust) || trust < 0) throw new Error(`Invalid trustProxy hop count: ${trust}`);
+    return (_addr, hop) => hop < trust;
+  }
+
+  const specs = typeof trust === 'string' ? trust.split(',') : trust;
+  const ranges: Range[] = [];
+  for (const raw of specs) {
+    const spec = raw.trim();
+    if (!spec) continue;
+    for (const entry of PRESETS[spec] || [spec]) ranges.push(parseRange(entry));
+  }
+
+  return (addr) => {
+    const bytes = parseIp(addr);
+    if (!bytes) return false;
+    for (const range of ranges) {
+      if (inRange(bytes, range)) return true;
+    }
+    return false;
+  };
+}
+
+/** What a proxy chain forwarded — addresses client first */
+export interface ForwardedInfo {
+  for: string[];
+  proto: string | undefined;
+  host: string | undefined;
+}
+
+function unquote(value: string): string {
+  return value.length > 1 && value.charCodeAt(0) === 34 && value.charCodeAt(value.length - 1) === 34
+    ? value.substring(1, value.length - 1)
+    : value;
+}
+
+/** "[2001:db8::1]:4711" => "2001:db8::1", "10.0.0.1:80" => "10.0.0.1" */
+function stripPort(addr: string): string {
+  if (addr.charCodeAt(0) === 91 /* '[' */) {
+    const close = addr.indexOf(']');
+    return close === -1 ? addr : addr.substring(1, close);
+  }
+  const colon = addr.indexOf(':');
+  return colon !== -1 && colon === addr.lastIndexOf(':') ? addr.substring(0, colon) : addr;
+}
+
+function firstValue(header: string | undefined): string | undefined {
+  if (!header) return undefined;
+  const comma = header.indexOf(',');
+  const value = (comma === -1 ? header : header.substring(0, comma)).trim();
+  return value || undefined;
+}
+
+/**
+ * Read Forwarded (RFC 7239), falling back to X-Forwarded-For / -Proto / -Host
+ * proto and host come from the element nearest the client
+ */
+export function parseForwarded(getHeader: (name: string) => string | undefined): ForwardedInfo {
+  const forwarded = getHeader('forwarded');
+  if (forwarded) {
+    const info: ForwardedInfo = { for: [], proto: undefined, host: undefined };
+    for (const element of forwarded.split(',')) {
+      for (const pair of element.split(';')) {
+        const eq = pair.indexOf('=');
+        if (eq === -1) continue;
+        const key = pair.substring(0, eq).trim().toLowerCase();
+        const value = unquote(pair.substring(eq + 1).trim());
+        if (key === 'for') info.for.push(stripPort(value));
+        else if (key === 'proto' && info.proto === undefined) info.proto = value.toLowerCase();
+        else if (key === 'host' && info.host === undefined) info.host = value;
+      }
+    }
+    return info;
+  }
+
+  const xff = getHeader('x-forwarded-for');
+  return {
+    for: xff ? xff.split(',').map((addr) => stripPort(addr.trim())).filter((addr) => addr.length > 0) : [],
+    proto: firstValue(getHeader('x-forwarded-proto'))?.toLowerCase(),
+    host: firstValue(getHeader('x-forwarded-host')),
+  };
+}
+
+/**
+ * Walk from the socket peer towards the client while hops are trusted
+ * Returns the trusted chain client first — [client, ...proxies], socket peer excluded
+ * Mapped IPv6 hops come back as IPv4, like the socket peer
+ */
+export function trustedChain(remote: string, forwardedFor: string[], trust: TrustFn): string[] {
+  const chain: string[] = [];
+  let addr = remote;
+  for (let hop = 0, i = forwardedFor.length - 1; i >= 0 && trust(addr, hop); hop++, i--) {
+    addr = normalizeAddress(forwardedFor[i]);
+    chain.push(addr);
+  }
+  return chain.reverse();
+}
@@ -0,0 +1,143 @@
+/**
+ * Query String Parsing
+ *
+ * Design decisions:
+ * - Repeated keys collect into arrays — "a=1&a=2" => { a: ["1", "2"] }
+ * - "+" decodes as a space; malformed %-sequences are kept raw instead of throwing
+ * - Nested syntax ("a[b]=c", "a[]=1") is opt-in — off, brackets are part of the key
+ * - "__proto__", "constructor" and "prototype" keys are dropped at any depth
+ * - Pairs past maxParams are ignored — bounds work on hostile query strings
+ */
+
+export type QueryValue = string | string[] | QueryObject;
+
+export interface QueryObject {
+  [key: string]: QueryValue;
+}
+
+export interface QueryOptions {
+  /** Parse "a[b]=c" into nested objects and "a[]=1" into arrays (default: false) */
+  nested?: boolean;
+  /** Max bracket levels parsed — deeper brackets stay in the last key (default: 5) */
+  depth?: number;
+  /** Max key/value pairs parsed — the rest are ignored (default: 1000) */
+  maxParams?: number;
+}
+
+const hasOwn = Object.prototype.hasOwnProperty;
+
+function isUnsafeKey(key: string): boolean {
+  return key === '__proto__' || key === 'constructor' || key === 'prototype';
+}
+
+/** "+" => " ", then percent-decode — malformed sequences are returned as-is */
+function decodeComponent(value: string): string {
+  if (value.indexOf('+') !== -1) value = value.replace(/\+/g, ' ');
+  if (value.indexOf('%') === -1) return value;
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Split "a[b][]" into ["a", "b", ""]
+ * Brackets past `depth` stay literal in one last segment: depth 1, "a[b][c]" => ["a", "b", "[c]"]
+ * Malformed keys ("a[b", "a[b]c") are kept whole
+ */
+function splitKey(key: string, depth: number): string[] {
+  const open = key.indexOf('[');
+  if (open <= 0) return [key];
+
+  const segments = [key.substring(0, open)];
+  let start = open;
+  while (start < key.length) {
+    if (segments.length > depth) {
+      segments.push(key.substring(start));
+      return segments;
+    }
+    const close = key.indexOf(']', start);
+    if (key.charCodeAt(start) !== 91 /* '[' */ || close === -1) return [key];
+    segments.push(key.substring(start + 1, close));
+    start = close + 1;
+  }
+  return segments;
+}
+
+/** Add a value under a flat key — a second occurrence turns it into an array */
+function assign(target: QueryObject, key: string, value: string): void {
+  if (!hasOwn.call(target, key)) {
+    target[key] = value;
+    return;
+  }
+  const existing = target[key];
+  if (Array.isArray(existing)) existing.push(value);
+  else if (typeof existing === 'string') target[key] = [existing, value];
+  // An object already lives here ("a[b]=1&a=2") — keep the structured value
+}
+
+function assignNested(target: QueryObject, segments: string[], value: string): void {
+  let node = target;
+  for (let i = 0; i < segments.length - 1; i++) {
+    const segment = segments[i];
+    if (isUnsafeKey(segment)) return;
+
+    // "a[]=1" — append to an array
+    if (segments[i + 1] === '' && i + 1 === segments.length - 1) {
+      if (hasOwn.call(node, segment)) assign(node, segment, value);
+      else node[segment] = [value];
+      return;
+    }
+
+    if (!hasOwn.call(node, segment)) node[segment] = {};
+    const next = node[segment];
+    // Conflicts with a plain value or array ("a=1&a[b]=2") — first shape wins
+    if (typeof next !== 'object' || Array.isArray(next)) return;
+    node = next;
+  }
+
+  const last = segments[segments.length - 1];
+  if (!isUnsafeKey(last)) assign(node, last, value);
+}
+
+/**
+ * Parse a query string (without the "?")
+ * parseQuery("a=1&a=2&b=x+y")                         => { a: ["1", "2"], b: "x y" }
+ * parseQuery("user[name]=a&tags[]=x", { nested: true }) => { user: { name: "a" }, tags: ["x"] }
+ */
+export function parseQuery(qs: string, options: QueryOptions = {}): QueryObject {
+  const result: QueryObject = {};
+  if (!qs) return result;
+
+  const nested = options.nested ?? false;
+  const depth = options.depth ?? 5;
+  let remaining = options.maxParams ?? 1000;
+
+  let start = 0;
+  while (start <= qs.length && remaining > 0) {
+    let end = qs.indexOf('&', start);
+    if (end === -1) end = qs.length;
+
+    if (end > start) {
+      remaining--;
+      let eq = start;
+      while (eq < end && qs.charCodeAt(eq) !== 61 /* '=' */) eq++;
+      const hasValue = eq < end;
+      const key = decodeComponent(qs.substring(start, hasValue ? eq : end));
+      const value = hasValue ? decodeComponent(qs.substring(eq + 1, end)) : '';
+
+      if (key) {
+        const segments = nested ? splitKey(key, depth) : [key];
+        if (segments.length === 1) {
+          if (!isUnsafeKey(key)) assign(result, key, value);
+        } else {
+          assignNested(result, segments, value);
+        }
+      }
+    }
+    start = end + 1;
+  }
+
+  return result;
+}
@@ -3,32 +3,171 @@
  *
  * Design decisions:
  * - Static routes use a HashMap for O(1) lookup
- * - Dynamic routes use a radix tree for O(k) lookup where k = path length
- * - Params extracted during traversal without regex
+ * - Dynamic routes use a radix tree — O(k) typical, backtracks only on dead ends
+ * - Priority per segment: static > constrained param > param > wildcard
+ * - Duplicate and ambiguous routes rejected at registration, not at request time
+ * - Params extracted during traversal — regex only for constrained params
+ * - Typed constraints (:id<int>, :id(\\d+)) precompiled, values coerced on match
+ * - Optional segments (/:lang?/docs) expanded into plain routes at startup
  * - Routes precompiled at startup — zero work at request time for static routes
  * - No closures allocated per request
+ * - Global + route middleware + handler flattened into one chain per route at listen()
+ * - Named routes for reverse URL generation (startup map, no per-request cost)
+ * - Host-bound routes live in per-host sub-routers — zero cost when none are registered
+ * - Versioned routes share one slot; the version is picked after the path matches
+ * - Runtime remove()/replace() swap slot references — in-flight requests keep their chain
+ * - Path policy (trailing slash, case, percent-decoding) fixed per router at construction
  *
  * Memory: ~500 bytes per route, ~50KB for 100 routes
  */
 
-import type { MiddlewareFn } from './middleware.js';
+import type { AddedState, MiddlewareFn } from './middleware.js';
+import { composeMiddleware } from './middleware.js';
+import type { DefaultState } from './context.js';
+import { badRequest } from './errors.js';
 
-export type Handler = MiddlewareFn;
+export type Handler<
+  State extends DefaultState = DefaultState,
+  Params extends Record<string, ParamValue> = Record<string, ParamValue>,
+  Body = unknown
+> = MiddlewareFn<State, Params, Body>;
+
+/**
+ * Route middleware, then the handler — typed with the state the middleware declare
+ * app.get('/me', auth({ verify }), (ctx) => ctx.json(ctx.state.user))
+ */
+export type RouteHandlers<
+  State extends DefaultState,
+  M extends MiddlewareFn<State>[],
+  Params extends Record<string, ParamValue> = Record<string, ParamValue>
+> = [...M, Handler<State & AddedState<M>, Params>];
+
+/** Route param value — a string, or a number when coerced by a typed constraint */
+export type ParamValue = string | number;
+
+/**
+ * ctx.params for a route path (after its group prefix) — strings, unless a
+ * `:name<type>` constraint may coerce, or the path isn't known at compile time
+ */
+export type PathParams<Path extends string, Prefix extends string = ''> = string extends Path | Prefix
+  ? Record<string, ParamValue>
+  : `${Prefix}${Path}` extends `${string}<${string}`
+    ? Record<string, ParamValue>
+    : Record<string, string>;
+
+/**
+ * Named param type for `:name<type>` constraints
+ * Register custom types with router.paramType()
+ */
+export interface ParamType {
+  /** Must match the whole segment — anchor it (^...$) */
+  pattern: RegExp;
+  /** Convert the raw segment into the delivered param value */
+  coerce?: (value: string) => ParamValue;
+}
+
+export type UrlParams = Record<string, string | number>;
+export type UrlQuery = Record<string, string | number | boolean | (string | number)[] | undefined>;
 
 export interface RouteMatch {
   fn: Handler;
   middleware: Handler[] | null;
-  params: Record<string, string> | null;
+  /** Global + route middleware + handler, precomposed by compile() — null before it */
+  chain: Handler[] | null;
+  params: Record<string, ParamValue> | null;
+  /** Version of the matched handler — null for unversioned routes */
+  version: string | null;
+  /** Precomputed Deprecation header value for deprecated versions */
+  deprecation: string | null;
+  /** Precomputed Sunset header value (HTTP-date) */
+  sunset: string | null;
+  /** Request path was not canonical — answer with a redirect (trailingSlash: 'redirect') */
+  redirect: boolean;
+}
+
+/** Version binding for a route — see App.version() */
+export interface RouteVersion {
+  /** "2" or "v2" — the leading "v" is ignored */
+  version: string;
+  /** Emit a Deprecation header — true, or the date the version was deprecated */
+  deprecated?: boolean | Date;
+  /** Emit a Sunset header — when the version stops being served */
+  sunset?: Date | string;
+}
+
+/** Per-route registration options */
+export interface RouteOptions {
+  /** Host pattern — "api.example.com", "*.example.com", ":tenant.example.com" */
+  host?: string | null;
+  version?: RouteVersion | null;
+}
+
+export interface RouterOptions {
+  /** Version used when a request names none (default: latest registered per route) */
+  defaultVersion?: string | null;
+  /** Accept a /v2/... path prefix as the version when the literal path has no route */
+  versionPath?: boolean;
+  /**
+   * "/users/" and "/users//1" — 'ignore' (default) matches them as "/users" and "/users/1",
+   * 'redirect' does too but flags the match for a redirect to the canonical path,
+   * 'strict' treats a trailing slash as significant and never matches empty segments
+   */
+  trailingSlash?: 'ignore' | 'redirect' | 'strict';
+  /** Match static segments case-insensitively when false — params keep their case (default: true) */
+  caseSensitive?: boolean;
+  /** Percent-decode params — malformed encodings throw a 400 (default: true) */
+  decodeParams?: boolean;
+}
+
+/** Free-form route metadata (description, tags, owner...) — diagnostics only */
+export type RouteMeta = Record<string, unknown>;
+
+/** One registered route as reported by router.routes() */
+export interface RouteInfo {
+  method: string;
+  /** Pattern as registered (optional segments unexpanded) */
+  path: string;
+  /** Handler function name, or "<anonymous>" */
+  handler: string;
+  middleware: string[];
+  name: string | null;
+  meta: RouteMeta | null;
+  /** Host pattern the route is bound to, null for any host */
+  host: string | null;
+  version: string | null;
 }
 
 interface RouteEntry {
+  method: string;
+  path: string;
   fn: Handler;
   middleware: Handler[] | null;
+  chain: Handler[] | null;
+  version: string | null;
+  deprecation: string | null;
+  sunset: string | null;
+  /** Set on the dispatcher entry stored in place of versioned routes */
+  versions: VersionTable | null;
+}
+
+interface VersionTable {
+  byVersion: Map<string, RouteEntry>;
+  latest: RouteEntry | null;
+}
+
+/** A param edge with a constraint — tried before the plain param child */
+interface ConstrainedParam {
+  name: string;
+  /** Raw constraint text ("<int>", "(\\d+)") — identifies the edge */
+  key: string;
+  type: ParamType;
+  node: RadixNode;
 }
 
 class RadixNode {
   segment: string;
   children: Map<string, RadixNode> | null;
+  constrained: ConstrainedParam[] | null;
   paramChild: RadixNode | null;
   paramName: string | null;
   wildcardChild: RadixNode | null;
@@ -38,6 +177,7 @@ class RadixNode {
   constructor(segment = '') {
     this.segment = segment;
     this.children = null;
+    this.constrained = null;
     this.paramChild = null;
     this.paramName = null;
     this.wildcardChild = null;
@@ -94,11 +234,285 @@ function queryIndex(url: string): number {
   return -1;
 }
 
+/** No empty segments and no trailing slash (root excepted) — stops at '?' */
+function isCanonicalPath(url: string): boolean {
+  let prev = 0;
+  let i = 0;
+  for (; i < url.length; i++) {
+    const ch = url.charCodeAt(i);
+    if (ch === 63 /* '?' */) break;
+    if (ch === 47 /* '/' */ && prev === 47) return false;
+    prev = ch;
+  }
+  return i <= 1 || prev !== 47;
+}
+
+/**
+ * Collapse empty segments and drop the trailing slash
+ * "/users/" => "/users", "/users//1" => "/users/1", "/" => "/"
+ */
+export function canonicalPath(path: string): string {
+  if (isCanonicalPath(path)) return path;
+  const qIdx = queryIndex(path);
+  const base = qIdx === -1 ? path : path.substring(0, qIdx);
+  const canonical = '/' + base.split('/').filter((seg) => seg !== '').join('/');
+  return qIdx === -1 ? canonical : canonical + path.substring(qIdx);
+}
+
+/** Lowercase the static segments of a pattern — params, constraints and wildcards untouched */
+function lowerStaticSegments(path: string): string {
+  return path
+    .split('/')
+    .map((seg) => (seg.charCodeAt(0) === 58 /* ':' */ || seg.charCodeAt(0) === 42 /* '*' */ ? seg : seg.toLowerCase()))
+    .join('/');
+}
+
+/** Percent-decode a param — malformed sequences are the client's fault (400) */
+function decodeParam(value: string): string {
+  if (value.indexOf('%') === -1) return value;
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw badRequest('Malformed URL encoding in path', 'MALFORMED_URI');
+  }
+}
+
+/**
+ * Serialize a query object — arrays become repeated keys, undefined is skipped
+ * Returns "" or "?a=1&b=2"
+ */
+function buildQueryString(query: UrlQuery): string {
+  let qs = '';
+  for (const key in query) {
+    const value = query[key];
+    if (value === undefined) continue;
+
+    const k = encodeURIComponent(key);
+    if (Array.isArray(value)) {
+      for (const v of value) {
+        qs += (qs ? '&' : '?') + k + '=' + encodeURIComponent(String(v));
+      }
+    } else {
+      qs += (qs ? '&' : '?') + k + '=' + encodeURIComponent(String(value));
+    }
+  }
+  return qs;
+}
+
+const BUILTIN_PARAM_TYPES: Record<string, ParamType> = {
+  int: { pattern: /^-?\d+$/, coerce: (v) => parseInt(v, 10) },
+  float: { pattern: /^-?\d+(?:\.\d+)?$/, coerce: (v) => parseFloat(v) },
+  uuid: { pattern: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i },
+  alpha: { pattern: /^[a-zA-Z]+$/ },
+  slug: { pattern: /^[a-z0-9]+(?:-[a-z0-9]+)*$/ },
+};
+
+interface ParamSegment {
+  name: string;
+  /** "<int>" or "(\\d+)" — null when unconstrained */
+  constraint: string | null;
+  optional: boolean;
+}
+
+/**
+ * Parse a ":param" pattern segment
+ * ":id"         => { name: "id", constraint: null, optional: false }
+ * ":id<int>"    => { name: "id", constraint: "<int>", optional: false }
+ * ":id(\\d+)?" => { name: "id", constraint: "(\\d+)", optional: true }
+ */
+function parseParamSegment(seg: string): ParamSegment {
+  let end = seg.length;
+  const optional = seg.charCodeAt(end - 1) === 63 /* '?' */;
+  if (optional) end--;
+
+  for (let i = 1; i < end; i++) {
+    const ch = seg.charCodeAt(i);
+    if (ch === 40 /* '(' */ || ch === 60 /* '<' */) {
+      return { name: seg.substring(1, i), constraint: seg.substring(i, end), optional };
+    }
+  }
+
+  return { name: seg.substring(1, end), constraint: null, optional };
+}
+
+/**
+ * Expand optional segments into every concrete pattern, longest first
+ * "/:lang?/docs" => ["/:lang/docs", "/docs"]
+ */
+function expandOptional(path: string): string[] {
+  if (!path.includes('?')) return [path];
+
+  let variants = [''];
+  const count = splitPath(path);
+  const segs = _segBuf.slice(0, count);
+
+  for (const seg of segs) {
+    if (seg.charCodeAt(seg.length - 1) === 63 /* '?' */) {
+      const required = seg.substring(0, seg.length - 1);
+      variants = variants.flatMap((v) => [`${v}/${required}`, v]);
+    } else {
+      variants = variants.map((v) => `${v}/${seg}`);
+    }
+  }
+
+  return variants.map((v) => v || '/');
+}
+
+/** Routes bound to one host pattern */
+interface HostBinding {
+  /** Lowercased pattern: "api.example.com", "*.example.com", ":tenant.example.com" */
+  pattern: string;
+  labels: string[];
+  /** No wildcard or param labels — compared as a plain string */
+  exact: boolean;
+  router: Router;
+}
+
+/**
+ * Lowercase a Host header and strip the port
+ * "API.Example.com:8080" => "api.example.com", "[::1]:3000" => "[::1]"
+ */
+function normalizeHost(host: string): string {
+  const colon = host.lastIndexOf(':');
+  if (colon !== -1 && host.lastIndexOf(']') < colon) host = host.substring(0, colon);
+  return host.toLowerCase();
+}
+
+/**
+ * Match host labels against a pattern — "*" is any one label, ":name" captures one
+ * Returns captured params (possibly empty) or null on mismatch
+ */
+function matchHostLabels(labels: string[], host: string): Record<string, string> | null {
+  const parts = host.split('.');
+  if (parts.length !== labels.length) return null;
+
+  let params: Record<string, string> | null = null;
+  for (let i = 0; i < labels.length; i++) {
+    const label = labels[i];
+    const first = label.charCodeAt(0);
+    if (first === 42 /* '*' */) continue;
+    if (first === 58 /* ':' */) {
+      if (!params) params = {};
+      params[label.substring(1)] = parts[i];
+      continue;
+    }
+    if (label !== parts[i]) return null;
+  }
+  return params || {};
+}
+
+/** "v2" => "2", "V2" => "2", "2" => "2" */
+function normalizeVersion(version: string): string {
+  const first = version.charCodeAt(0);
+  return first === 118 /* 'v' */ || first === 86 /* 'V' */ ? version.substring(1) : version;
+}
+
+/**
+ * Split a "/v2/users" style URL into ["2", "/users"]
+ * Returns null when the first segment is not v<digits>
+ */
+function stripVersionPrefix(url: string): [string, string] | null {
+  if (url.charCodeAt(1) !== 118 /* 'v' */) return null;
+
+  let i = 2;
+  while (i < url.length && url.charCodeAt(i) >= 48 && url.charCodeAt(i) <= 57) i++;
+  if (i === 2) return null;
+
+  const next = url.charCodeAt(i);
+  if (i < url.length && next !== 47 /* '/' */ && next !== 63 /* '?' */) return null;
+
+  const rest = url.substring(i);
+  return [url.substring(2, i), rest === '' || rest.charCodeAt(0) === 63 ? '/' + rest : rest];
+}
+
+/** No handler and no edges — safe to unlink from its parent */
+function isEmptyNode(node: RadixNode): boolean {
+  return (
+    node.handler === null &&
+    node.children === null &&
+    node.constrained === null &&
+    node.paramChild === null &&
+    node.wildcardChild === null
+  );
+}
+
+/** Put `next` where `prev` was — directly, or inside a versioned slot's table */
+function swapEntry(slot: RouteEntry, prev: RouteEntry, next: RouteEntry): RouteEntry {
+  if (slot === prev) return next;
+  if (slot.versions !== null) {
+    slot.versions.byVersion.set(next.version!, next);
+    if (slot.versions.latest === prev) slot.versions.latest = next;
+  }
+  return slot;
+}
+
+/** Entry stored in place of versioned routes — answers 400 for unknown versions */
+function createDispatcher(method: string, path: string): RouteEntry {
+  const table: VersionTable = { byVersion: new Map(), latest: null };
+  return {
+    method,
+    path,
+    fn: function unsupportedVersion() {
+      throw badRequest('Unsupported API version', 'UNSUPPORTED_VERSION', {
+        supported: [...table.byVersion.keys()],
+      });
+    },
+    middleware: null,
+    chain: null,
+    version: null,
+    deprecation: null,
+    sunset: null,
+    versions: table,
+  };
+}
+
 export class Router {
   /** Static route map: "METHOD /path" -> RouteEntry */
   private _static: Map<string, RouteEntry> = new Map();
   /** Per-method radix trees */
   private _trees: Map<string, RadixNode> = new Map();
+  /** Every method with at least one registered route */
+  private _methods: Set<string> = new Set();
+  /** Every registration in order — introspection only, never read per request */
+  private _entries: RouteEntry[] = [];
+  /** Route name -> path pattern */
+  private _names: Map<string, string> = new Map();
+  /** Path pattern -> metadata */
+  private _meta: Map<string, RouteMeta> = new Map();
+  /** Host-bound sub-routers — exact hosts first, then patterns in registration order */
+  private _hosts: HostBinding[] | null = null;
+  /** Named types usable as :param<type> */
+  private _paramTypes: Map<string, ParamType> = new Map(Object.entries(BUILTIN_PARAM_TYPES));
+  private _options: RouterOptions;
+  private _defaultVersion: string | null;
+  /** Global middleware captured by compile() — null until then */
+  private _global: Handler[] | null = null;
+  private _strictSlash: boolean;
+  private _redirectSlash: boolean;
+  private _caseSensitive: boolean;
+  private _decode: boolean;
+
+  constructor(options: RouterOptions = {}) {
+    this._options = options;
+    this._defaultVersion = options.defaultVersion ? normalizeVersion(options.defaultVersion) : null;
+    this._strictSlash = options.trailingSlash === 'strict';
+    this._redirectSlash = options.trailingSlash === 'redirect';
+    this._caseSensitive = options.caseSensitive !== false;
+    this._decode = options.decodeParams !== false;
+  }
+
+  /**
+   * Register a named param type for `:param<name>` constraints
+   * Must be called before routes using it are added
+   *
+   * @example
+   * router.paramType('objectId', { pattern: /^[a-f\d]{24}$/i });
+   * app.get('/posts/:id<objectId>', handler);
+   */
+  paramType(name: string, type: ParamType): this {
+    this._paramTypes.set(name, type);
+    return this;
+  }
 
   /**
    * Register a route
@@ -106,45 +520,364 @@ export class Router {
    * @param path Route path (e.g., "/users/:id")
    * @param handler Request handler
    * @param middleware Route-level middleware
+   * @param options Host binding and version
    */
-  add(method: string, path: string, handler: Handler, middleware: Handler[] | null = null): void {
-    const route: RouteEntry = { fn: handler, middleware };
-    const isDynamic = path.includes(':') || path.includes('*');
+  add(
+    method: string,
+    path: string,
+    handler: Handler,
+    middleware: Handler[] | null = null,
+    options: RouteOptions = {}
+  ): void {
+    if (options.host) {
+      this._hostRouter(options.host).add(method, path, handler, middleware, { version: options.version });
+      this._methods.add(method);
+      return;
+    }
 
-    if (!isDynamic) {
-      this._static.set(`${method} ${path}`, route);
-    } else {
-      let root = this._trees.get(method);
-      if (!root) {
-        root = new RadixNode();
-        this._trees.set(method, root);
+    const route = this._createEntry(method, path, handler, middleware, options.version || null);
+    this._methods.add(method);
+
+    for (const variant of this._variants(path)) {
+      const isDynamic = variant.includes(':') || variant.includes('*');
+
+      if (!isDynamic) {
+        const key = `${method} ${variant}`;
+        this._static.set(key, this._place(this._static.get(key) || null, route, key));
+      } else {
+        let root = this._trees.get(method);
+        if (!root) {
+          root = new RadixNode();
+          this._trees.set(method, root);
+        }
+        this._insertDynamic(root, method, variant, route);
+      }
+    }
+
+    this._entries.push(route);
+  }
+
+  /**
+   * Concrete patterns stored for a registered path — optional segments expanded,
+   * then shaped by the path policy (canonical slashes, lowercased static segments)
+   */
+  private _variants(path: string): string[] {
+    const trailing = this._strictSlash && path.length > 1 && path.charCodeAt(path.length - 1) === 47;
+    return expandOptional(path).map((variant) => {
+      if (trailing && variant.charCodeAt(variant.length - 1) !== 47) variant += '/';
+      else if (!this._strictSlash) variant = '/' + variant.split('/').filter((seg) => seg !== '').join('/');
+      return this._caseSensitive ? variant : lowerStaticSegments(variant);
+    });
+  }
+
+  /**
+   * splitPath() for patterns and request paths — under a strict trailing slash
+   * policy "/users/" keeps a final empty segment so it differs from "/users"
+   */
+  private _split(path: string): number {
+    let count = splitPath(path);
+    if (this._strictSlash && path.length > 1 && path.charCodeAt(path.length - 1) === 47) {
+      _segBuf[count++] = '';
+    }
+    return count;
+  }
+
+  private _createEntry(
+    method: string,
+    path: string,
+    handler: Handler,
+    middleware: Handler[] | null,
+    spec: RouteVersion | null
+  ): RouteEntry {
+    return {
+      method,
+      path,
+      fn: handler,
+      middleware,
+      chain: this._global !== null ? composeMiddleware(this._global, middleware, [handler]) : null,
+      version: spec ? normalizeVersion(spec.version) : null,
+      deprecation: spec && spec.deprecated
+        ? spec.deprecated instanceof Date
+          ? `@${Math.floor(spec.deprecated.getTime() / 1000)}`
+          : 'true'
+        : null,
+      sunset: spec && spec.sunset ? new Date(spec.sunset).toUTCString() : null,
+      versions: null,
+    };
+  }
+
+  /**
+   * Unregister a route at runtime — pass the pattern exactly as registered
+   *
+   * Without options.version every version of the route goes; with it only that one.
+   * Emptied radix nodes are pruned. In-flight requests keep the handler chain
+   * they matched — routing state is only swapped, never mutated under them.
+   * Names and metadata stay bound, so a route can be re-added later.
+   *
+   * @returns false if nothing was registered for the method + path
+   */
+  remove(method: string, path: string, options: RouteOptions = {}): boolean {
+    if (options.host) {
+      const binding = this._findHost(options.host);
+      if (!binding || !binding.router.remove(method, path, { version: options.version })) return false;
+
+      if (binding.router.size === 0) {
+        this._hosts!.splice(this._hosts!.indexOf(binding), 1);
+        if (this._hosts!.length === 0) this._hosts = null;
+      }
+      this._syncMethod(method);
+      return true;
+    }
+
+    const version = options.version ? normalizeVersion(options.version.version) : null;
+    const targets = this._entries.filter(
+      (e) => e.method === method && e.path === path && (version === null || e.version === version)
+    );
+    if (targets.length === 0) return false;
+
+    for (const variant of this._variants(path)) {
+      if (!variant.includes(':') && !variant.includes('*')) {
+        const key = `${method} ${variant}`;
+        const slot = this._detach(this._static.get(key) || null, targets);
+        if (slot) {
+          this._static.set(key, slot);
+        } else {
+          this._static.delete(key);
+        }
+        continue;
+      }
+
+      const root = this._trees.get(method);
+      const nodes = root ? this._findNodes(root, variant) : null;
+      if (!nodes) continue;
+
+      const leaf = nodes[nodes.length - 1];
+      leaf.handler = this._detach(leaf.handler, targets);
+      if (!leaf.handler) this._prune(nodes);
+      if (isEmptyNode(root!)) this._trees.delete(method);
+    }
+
+    this._entries = this._entries.filter((e) => !targets.includes(e));
+    this._syncMethod(method);
+    return true;
+  }
+
+  /**
+   * Swap the handler and middleware of a registered route in place
+   *
+   * Keeps the route's position — constrained param priority and routes()
+   * order are unchanged. Requests already running finish on the old chain.
+   *
+   * @throws If no route is registered for the method + path (+ version)
+   */
+  replace(
+    method: string,
+    path: string,
+    handler: Handler,
+    middleware: Handler[] | null = null,
+    options: RouteOptions = {}
+  ): void {
+    const next = this._createEntry(method, path, handler, middleware, options.version || null);
+    const binding = options.host ? this._findHost(options.host) : null;
+    const owner = binding ? binding.router : this;
+    const index = options.host && !binding
+      ? -1
+      : owner._entries.findIndex((e) => e.method === method && e.path === path && e.version === next.version);
+
+    if (index === -1) {
+      const label = next.version !== null ? ` (version ${next.version})` : '';
+      throw new Error(`Cannot replace route ${method} ${path}${label}: route is not registered`);
+    }
+
+    const prev = owner._entries[index];
+    for (const variant of owner._variants(path)) {
+      if (!variant.includes(':') && !variant.includes('*')) {
+        const key = `${method} ${variant}`;
+        owner._static.set(key, swapEntry(owner._static.get(key)!, prev, next));
+      } else {
+        const nodes = owner._findNodes(owner._trees.get(method)!, variant)!;
+        const leaf = nodes[nodes.length - 1];
+        leaf.handler = swapEntry(leaf.handler!, prev, next);
+      }
+    }
+    owner._entries[index] = next;
+  }
+
+  /** What a slot holds once the target registrations are gone — null when empty */
+  private _detach(slot: RouteEntry | null, targets: RouteEntry[]): RouteEntry | null {
+    if (slot === null) return null;
+    if (slot.versions === null) return targets.includes(slot) ? null : slot;
+
+    const table = slot.versions;
+    for (const target of targets) {
+      if (target.version !== null && table.byVersion.get(target.version) === target) {
+        table.byVersion.delete(target.version);
+      }
+    }
+    if (table.byVersion.size === 0) return null;
+
+    if (table.latest !== null && !table.byVersion.has(table.latest.version!)) {
+      table.latest = null;
+      for (const entry of table.byVersion.values()) {
+        if (
+          table.latest === null ||
+          entry.version!.localeCompare(table.latest.version!, undefined, { numeric: true }) > 0
+        ) {
+          table.latest = entry;
+        }
+      }
+    }
+    return slot;
+  }
+
+  /**
+   * Walk a registered pattern without creating nodes
+   * Returns the nodes from root to leaf, or null if the pattern is not in the tree
+   */
+  private _findNodes(root: RadixNode, path: string): RadixNode[] | null {
+    const count = this._split(path);
+    const nodes = [root];
+    let node: RadixNode | null | undefined = root;
+
+    for (let i = 0; i < count; i++) {
+      const seg = _segBuf[i];
+
+      if (seg.charCodeAt(0) === 58 /* ':' */) {
+        const param = parseParamSegment(seg);
+        if (param.constraint !== null) {
+          const edge: ConstrainedParam | undefined = node.constrained
+            ? node.constrained.find((e) => e.key === param.constraint && e.name === param.name)
+            : undefined;
+          node = edge ? edge.node : null;
+        } else {
+          node = node.paramName === param.name ? node.paramChild : null;
+        }
+      } else if (seg.charCodeAt(0) === 42 /* '*' */) {
+        const wcName = seg.length > 1 ? seg.substring(1) : 'wildcard';
+        node = node.wildcardName === wcName ? node.wildcardChild : null;
+      } else {
+        node = node.getChild(seg);
+      }
+
+      if (!node) return null;
+      nodes.push(node);
+    }
+
+    return nodes;
+  }
+
+  /** Unlink emptied nodes bottom-up — stops at the first node still in use */
+  private _prune(nodes: RadixNode[]): void {
+    for (let i = nodes.length - 1; i > 0; i--) {
+      const node = nodes[i];
+      if (!isEmptyNode(node)) return;
+
+      const parent = nodes[i - 1];
+      if (parent.paramChild === node) {
+        parent.paramChild = null;
+        parent.paramName = null;
+      } else if (parent.wildcardChild === node) {
+        parent.wildcardChild = null;
+        parent.wildcardName = null;
+      } else if (parent.constrained && parent.constrained.some((e) => e.node === node)) {
+        parent.constrained = parent.constrained.filter((e) => e.node !== node);
+        if (parent.constrained.length === 0) parent.constrained = null;
+      } else if (parent.children) {
+        parent.children.delete(node.segment);
+        if (parent.children.size === 0) parent.children = null;
+      }
+    }
+  }
+
+  /** Drop a method from _methods once no route (host-bound or not) uses it */
+  private _syncMethod(method: string): void {
+    if (this._entries.some((e) => e.method === method)) return;
+    if (this._hosts && this._hosts.some((b) => b.router._methods.has(method))) return;
+    this._methods.delete(method);
+  }
+
+  private _findHost(pattern: string): HostBinding | null {
+    const key = pattern.toLowerCase();
+    if (this._hosts) {
+      for (const binding of this._hosts) {
+        if (binding.pattern === key) return binding;
       }
-      this._insertDynamic(root, path, route);
     }
+    return null;
   }
 
-  private _insertDynamic(root: RadixNode, path: string, route: RouteEntry): void {
-    const count = splitPath(path);
+  /** Find or create the sub-router for a host pattern */
+  private _hostRouter(pattern: string): Router {
+    const existing = this._findHost(pattern);
+    if (existing) return existing.router;
+
+    const key = pattern.toLowerCase();
+
+    const labels = key.split('.');
+    for (const label of labels) {
+      if (label === '' || label === ':') {
+        throw new Error(`Invalid host pattern "${pattern}": empty label`);
+      }
+    }
+
+    const router = new Router(this._options);
+    router._paramTypes = this._paramTypes;
+    router._global = this._global;
+
+    const binding: HostBinding = {
+      pattern: key,
+      labels,
+      exact: !key.includes('*') && !key.includes(':'),
+      router,
+    };
+
+    if (!this._hosts) this._hosts = [];
+    if (binding.exact) {
+      this._hosts.unshift(binding);
+    } else {
+      this._hosts.push(binding);
+    }
+    return router;
+  }
+
+  private _insertDynamic(root: RadixNode, method: string, path: string, route: RouteEntry): void {
+    const count = this._split(path);
     let node = root;
 
     for (let i = 0; i < count; i++) {
       const seg = _segBuf[i];
 
       if (seg.charCodeAt(0) === 58 /* ':' */) {
-        const paramName = seg.substring(1);
+        const param = parseParamSegment(seg);
+        if (param.constraint !== null) {
+          node = this._insertConstrained(node, param.name, param.constraint, method, path);
+          continue;
+        }
         if (!node.paramChild) {
           node.paramChild = new RadixNode();
-          node.paramName = paramName;
+          node.paramName = param.name;
+        } else if (node.paramName !== param.name) {
+          throw new Error(
+            `Ambiguous route ${method} ${path}: param ":${param.name}" conflicts with ` +
+              `":${node.paramName}" already registered at the same position`
+          );
         }
         node = node.paramChild;
       } else if (seg.charCodeAt(0) === 42 /* '*' */) {
+        if (i !== count - 1) {
+          throw new Error(`Invalid route ${method} ${path}: wildcard must be the last segment`);
+        }
         const wcName = seg.length > 1 ? seg.substring(1) : 'wildcard';
         if (!node.wildcardChild) {
           node.wildcardChild = new RadixNode();
           node.wildcardName = wcName;
+        } else if (node.wildcardName !== wcName) {
+          throw new Error(
+            `Ambiguous route ${method} ${path}: wildcard "*${wcName}" conflicts with ` +
+              `"*${node.wildcardName}" already registered at the same position`
+          );
         }
         node = node.wildcardChild;
-        break;
       } else {
         let child = node.getChild(seg);
         if (!child) {
@@ -154,101 +887,502 @@ export class Router {
       }
     }
 
-    node.handler = route;
+    node.handler = this._place(node.handler, route, `${method} ${path}`);
+  }
+
+  /**
+   * Precompose global middleware + route middleware + handler into one flat
+   * chain per route, so a request runs a single pipeline with no per-request
+   * closures. Called by App.listen(); routes added later are composed on add.
+   */
+  compile(globalMiddleware: Handler[]): void {
+    this._global = globalMiddleware;
+
+    const compileEntry = (entry: RouteEntry): void => {
+      entry.chain = composeMiddleware(globalMiddleware, entry.middleware, [entry.fn]);
+    };
+
+    for (const entry of this._entries) compileEntry(entry);
+    this._forEachDispatcher(compileEntry);
+
+    if (this._hosts) {
+      for (const binding of this._hosts) binding.router.compile(globalMiddleware);
+    }
+  }
+
+  /** Visit every dispatcher entry (versioned slots) in the static map and radix trees */
+  private _forEachDispatcher(fn: (entry: RouteEntry) => void): void {
+    const seen = new Set<RouteEntry>();
+    const visit = (entry: RouteEntry | null): void => {
+      if (entry && entry.versions !== null && !seen.has(entry)) {
+        seen.add(entry);
+        fn(entry);
+      }
+    };
+
+    for (const entry of this._static.values()) visit(entry);
+
+    const walk = (node: RadixNode): void => {
+      visit(node.handler);
+      if (node.children) for (const child of node.children.values()) walk(child);
+      if (node.constrained) for (const edge of node.constrained) walk(edge.node);
+      if (node.paramChild) walk(node.paramChild);
+      if (node.wildcardChild) walk(node.wildcardChild);
+    };
+    for (const root of this._trees.values()) walk(root);
+  }
+
+  /**
+   * Decide what a route slot holds after adding a route
+   * Unversioned routes own the slot; versioned ones share a dispatcher
+   */
+  private _place(existing: RouteEntry | null, route: RouteEntry, label: string): RouteEntry {
+    if (route.version === null) {
+      if (existing && existing.versions !== null) {
+        throw new Error(`Route ${label} is versioned — register it with a version`);
+      }
+      if (existing) {
+        throw new Error(`Duplicate route ${label}: an equivalent route is already registered`);
+      }
+      return route;
+    }
+
+    if (existing && existing.versions === null) {
+      throw new Error(`Route ${label} is registered without a version — cannot add version ${route.version}`);
+    }
+
+    let dispatcher = existing;
+    if (!dispatcher) {
+      dispatcher = createDispatcher(route.method, route.path);
+      if (this._global !== null) {
+        dispatcher.chain = composeMiddleware(this._global, null, [dispatcher.fn]);
+      }
+    }
+    const table = dispatcher.versions!;
+    if (table.byVersion.has(route.version)) {
+      throw new Error(`Duplicate route ${label}: version ${route.version} is already registered`);
+    }
+
+    table.byVersion.set(route.version, route);
+    if (
+      table.latest === null ||
+      route.version.localeCompare(table.latest.version!, undefined, { numeric: true }) > 0
+    ) {
+      table.latest = route;
+    }
+    return dispatcher;
+  }
+
+  /** Find or create the edge for a constrained param — same name + constraint share a node */
+  private _insertConstrained(node: RadixNode, name: string, key: string, method: string, path: string): RadixNode {
+    if (node.constrained) {
+      for (const edge of node.constrained) {
+        if (edge.key !== key) continue;
+        if (edge.name === name) return edge.node;
+        throw new Error(
+          `Ambiguous route ${method} ${path}: param ":${name}${key}" conflicts with ` +
+            `":${edge.name}${key}" already registered at the same position`
+        );
+      }
+    }
+
+    const edge: ConstrainedParam = { name, key, type: this._compileConstraint(key, path), node: new RadixNode() };
+    if (!node.constrained) node.constrained = [];
+    node.constrained.push(edge);
+    return edge.node;
+  }
+
+  /** "<int>" => registered type, "(\\d+)" => anchored regex */
+  private _compileConstraint(key: string, path: string): ParamType {
+    if (key.charCodeAt(0) === 60 /* '<' */) {
+      const typeName = key.substring(1, key.length - 1);
+      const type = this._paramTypes.get(typeName);
+      if (!type) {
+        throw new Error(`Unknown param type "${typeName}" in route ${path}`);
+      }
+      return type;
+    }
+
+    try {
+      return { pattern: new RegExp(`^(?:${key.substring(1, key.length - 1)})$`) };
+    } catch (err) {
+      throw new Error(`Invalid param pattern ${key} in route ${path}: ${(err as Error).message}`);
+    }
   }
 
   /**
    * Match a request URL to a route handler
    *
    * CRITICAL HOT PATH — optimized for zero allocation on static routes
+   *
+   * @param host Host header — only consulted when host-bound routes exist
+   * @param version Requested API version (Accept-Version / vendor media type)
    */
-  match(method: string, url: string): RouteMatch | null {
+  match(method: string, url: string, host?: string, version?: string): RouteMatch | null {
+    let redirect = false;
+    if (!this._strictSlash && !isCanonicalPath(url)) {
+      url = canonicalPath(url);
+      redirect = this._redirectSlash;
+    }
+
+    let found = this._match(method, url, host, version);
+    if (found === null && this._options.versionPath) {
+      // "/v2/users" => "/users" at version 2
+      const prefixed = stripVersionPrefix(url);
+      if (prefixed) found = this._match(method, prefixed[1], host, prefixed[0]);
+    }
+
+    if (found !== null && redirect) found.redirect = true;
+    return found;
+  }
+
+  private _match(method: string, url: string, host?: string, version?: string): RouteMatch | null {
+    // Host-bound routes win over host-less ones
+    if (this._hosts !== null && host) {
+      const hostRoute = this._matchHost(method, url, host, version);
+      if (hostRoute) return hostRoute;
+    }
+
     const qIdx = queryIndex(url);
     const path = qIdx === -1 ? url : url.substring(0, qIdx);
 
     // Try static route first — O(1)
-    const staticKey = `${method} ${path}`;
+    const staticKey = `${method} ${this._caseSensitive ? path : path.toLowerCase()}`;
     const staticRoute = this._static.get(staticKey);
     if (staticRoute) {
-      return { fn: staticRoute.fn, middleware: staticRoute.middleware, params: null };
+      return this._toMatch(staticRoute, null, version);
     }
 
     // Try radix tree — O(k)
     const root = this._trees.get(method);
     if (!root) return null;
 
-    return this._matchDynamic(root, path);
+    return this._matchDynamic(root, path, version);
   }
 
-  private _matchDynamic(root: RadixNode, path: string): RouteMatch | null {
-    const count = splitPath(path);
-    let node = root;
+  private _toMatch(
+    entry: RouteEntry,
+    params: Record<string, ParamValue> | null,
+    version?: string
+  ): RouteMatch {
+    if (entry.versions !== null) {
+      entry = this._selectVersion(entry, version);
+    }
+    return {
+      fn: entry.fn,
+      middleware: entry.middleware,
+      chain: entry.chain,
+      params,
+      version: entry.version,
+      deprecation: entry.deprecation,
+      sunset: entry.sunset,
+      redirect: false,
+    };
+  }
+
+  /**
+   * Pick a handler from a versioned slot
+   * Requested version => exact or 400 dispatcher; none => default, then latest
+   */
+  private _selectVersion(dispatcher: RouteEntry, requested?: string): RouteEntry {
+    const table = dispatcher.versions!;
+    if (requested) {
+      return table.byVersion.get(normalizeVersion(requested)) || dispatcher;
+    }
+    if (this._defaultVersion !== null) {
+      const entry = table.byVersion.get(this._defaultVersion);
+      if (entry) return entry;
+    }
+    return table.latest || dispatcher;
+  }
+
+  /** Try host-bound sub-routers — host params merged under path params */
+  private _matchHost(method: string, url: string, hostHeader: string, version?: string): RouteMatch | null {
+    const host = normalizeHost(hostHeader);
+
+    for (const binding of this._hosts!) {
+      let hostParams: Record<string, string> | null = null;
+      if (binding.exact) {
+        if (binding.pattern !== host) continue;
+      } else {
+        hostParams = matchHostLabels(binding.labels, host);
+        if (hostParams === null) continue;
+      }
+
+      const route = binding.router._match(method, url, undefined, version);
+      if (!route) continue;
+
+      if (hostParams !== null && Object.keys(hostParams).length > 0) {
+        route.params = route.params ? { ...hostParams, ...route.params } : hostParams;
+      }
+      return route;
+    }
+
+    return null;
+  }
+
+  private _matchDynamic(root: RadixNode, path: string, version?: string): RouteMatch | null {
+    // Strict: an empty segment ("/users//1") never matches
+    if (this._strictSlash && path.includes('//')) return null;
+
+    const count = this._split(path);
     const paramNames: string[] = [];
-    const paramValues: string[] = [];
+    const paramValues: ParamValue[] = [];
 
-    for (let i = 0; i < count; i++) {
-      const seg = _segBuf[i];
+    const entry = this._walk(root, 0, count, paramNames, paramValues);
+    if (!entry) return null;
 
-      // Try static child first
-      const child = node.getChild(seg);
-      if (child) {
-        node = child;
-        continue;
+    return this._toMatch(
+      entry,
+      paramNames.length > 0 ? this._buildParams(paramNames, paramValues) : null,
+      version
+    );
+  }
+
+  /**
+   * Depth-first match with backtracking — static > constrained > param > wildcard
+   *
+   * A branch that dead-ends further down unwinds its params and the next
+   * candidate at this level is tried, so "/files/special/x" still reaches
+   * "/files/:id/x" when "/files/special" exists.
+   * Recursion depth is bounded by the segment count.
+   */
+  private _walk(
+    node: RadixNode,
+    i: number,
+    count: number,
+    names: string[],
+    values: ParamValue[]
+  ): RouteEntry | null {
+    if (i === count) {
+      if (node.handler) return node.handler;
+      // Trailing wildcard matches an empty rest
+      if (node.wildcardChild && node.wildcardChild.handler) {
+        names.push(node.wildcardName!);
+        values.push('');
+        return node.wildcardChild.handler;
+      }
+      return null;
+    }
+
+    const seg = _segBuf[i];
+
+    // 1. Static child
+    const child = node.getChild(this._caseSensitive ? seg : seg.toLowerCase());
+    if (child) {
+      const found = this._walk(child, i + 1, count, names, values);
+      if (found) return found;
+    }
+
+    // Params never match the empty trailing segment (strict trailing slash)
+    if (seg.length > 0 && (node.constrained !== null || node.paramChild !== null)) {
+      const value = this._decode ? decodeParam(seg) : seg;
+
+      // 2. Constrained params in registration order
+      if (node.constrained) {
+        for (const edge of node.constrained) {
+          if (!edge.type.pattern.test(value)) continue;
+          names.push(edge.name);
+          values.push(edge.type.coerce ? edge.type.coerce(value) : value);
+          const found = this._walk(edge.node, i + 1, count, names, values);
+          if (found) return found;
+          names.pop();
+          values.pop();
+        }
       }
 
-      // Try param child
+      // 3. Plain param
       if (node.paramChild) {
-        paramNames.push(node.paramName!);
-        paramValues.push(seg);
-        node = node.paramChild;
-        continue;
+        names.push(node.paramName!);
+        values.push(value);
+        const found = this._walk(node.paramChild, i + 1, count, names, values);
+        if (found) return found;
+        names.pop();
+        values.pop();
       }
+    }
 
-      // Try wildcard
-      if (node.wildcardChild) {
-        let rest = seg;
-        for (let j = i + 1; j < count; j++) {
-          rest += '/' + _segBuf[j];
-        }
-        paramNames.push(node.wildcardName!);
-        paramValues.push(rest);
-        node = node.wildcardChild;
-        i = count;
-        break;
+    // 4. Wildcard — swallows the rest, nothing left to backtrack into
+    if (node.wildcardChild && node.wildcardChild.handler) {
+      let rest = seg;
+      for (let j = i + 1; j < count; j++) {
+        rest += '/' + _segBuf[j];
       }
+      names.push(node.wildcardName!);
+      values.push(this._decode ? decodeParam(rest) : rest);
+      return node.wildcardChild.handler;
+    }
 
-      return null;
+    return null;
+  }
+
+  /**
+   * List every method registered for a URL (static map and radix trees)
+   *
+   * Only used on the miss path — to answer 405 with an Allow header
+   * and to auto-answer OPTIONS. Returns an empty array if the path is unknown.
+   */
+  allowedMethods(url: string, host?: string): string[] {
+    if (!this._strictSlash) url = canonicalPath(url);
+    const allowed = this._allowedMethods(url, host);
+    if (allowed.length > 0 || !this._options.versionPath) return allowed;
+
+    const prefixed = stripVersionPrefix(url);
+    return prefixed ? this._allowedMethods(prefixed[1], host) : allowed;
+  }
+
+  private _allowedMethods(url: string, host?: string): string[] {
+    const qIdx = queryIndex(url);
+    const path = qIdx === -1 ? url : url.substring(0, qIdx);
+    const allowed: string[] = [];
+
+    if (this._hosts !== null && host) {
+      const normalized = normalizeHost(host);
+      for (const binding of this._hosts) {
+        const hit = binding.exact
+          ? binding.pattern === normalized
+          : matchHostLabels(binding.labels, normalized) !== null;
+        if (!hit) continue;
+        for (const method of binding.router.allowedMethods(path)) {
+          if (!allowed.includes(method)) allowed.push(method);
+        }
+      }
     }
 
-    if (!node.handler) {
-      if (node.wildcardChild && node.wildcardChild.handler) {
-        paramNames.push(node.wildcardName!);
-        paramValues.push('');
-        return {
-          fn: node.wildcardChild.handler.fn,
-          middleware: node.wildcardChild.handler.middleware,
-          params: this._buildParams(paramNames, paramValues),
-        };
+    for (const method of this._methods) {
+      if (allowed.includes(method)) continue;
+      if (this._static.has(`${method} ${this._caseSensitive ? path : path.toLowerCase()}`)) {
+        allowed.push(method);
+        continue;
+      }
+      const root = this._trees.get(method);
+      if (root && this._matchDynamic(root, path)) {
+        allowed.push(method);
       }
-      return null;
     }
 
-    return {
-      fn: node.handler.fn,
-      middleware: node.handler.middleware,
-      params: paramNames.length > 0 ? this._buildParams(paramNames, paramValues) : null,
-    };
+    return allowed;
   }
 
-  private _buildParams(names: string[], values: string[]): Record<string, string> {
-    const params: Record<string, string> = {};
+  private _buildParams(names: string[], values: ParamValue[]): Record<string, ParamValue> {
+    const params: Record<string, ParamValue> = {};
     for (let i = 0; i < names.length; i++) {
       params[names[i]] = values[i];
     }
     return params;
   }
 
+  /**
+   * Name a route pattern for reverse URL generation
+   * Throws if the name is already bound to a different pattern
+   */
+  name(name: string, path: string): void {
+    const existing = this._names.get(name);
+    if (existing !== undefined && existing !== path) {
+      throw new Error(`Route name "${name}" is already registered for ${existing}`);
+    }
+    this._names.set(name, path);
+  }
+
+  /**
+   * Attach metadata to a path pattern (merged, shared by all its methods)
+   * Reported by routes() — never read at request time
+   */
+  meta(path: string, meta: RouteMeta): void {
+    const existing = this._meta.get(path);
+    this._meta.set(path, existing ? { ...existing, ...meta } : { ...meta });
+  }
+
+  /**
+   * List every registered route (static and dynamic) in registration order
+   * Diagnostics only — allocates on every call
+   */
+  routes(): RouteInfo[] {
+    const namesByPath = new Map<string, string>();
+    for (const [name, path] of this._names) {
+      if (!namesByPath.has(path)) namesByPath.set(path, name);
+    }
+
+    const describe = (entry: RouteEntry, host: string | null): RouteInfo => ({
+      method: entry.method,
+      path: entry.path,
+      handler: entry.fn.name || '<anonymous>',
+      middleware: entry.middleware ? entry.middleware.map((mw) => mw.name || '<anonymous>') : [],
+      name: namesByPath.get(entry.path) ?? null,
+      meta: this._meta.get(entry.path) ?? null,
+      host,
+      version: entry.version,
+    });
+
+    const result = this._entries.map((entry) => describe(entry, null));
+    if (this._hosts) {
+      for (const binding of this._hosts) {
+        for (const entry of binding.router._entries) {
+          result.push(describe(entry, binding.pattern));
+        }
+      }
+    }
+    return result;
+  }
+
+  /** Check if a route name is registered */
+  hasName(name: string): boolean {
+    return this._names.has(name);
+  }
+
+  /**
+   * Build a URL from a named route
+   *
+   * url('user', { id: 42 })                  => "/users/42"
+   * url('files', { path: 'a/b c.txt' })      => "/files/a/b%20c.txt"
+   * url('users', {}, { page: 2, tag: ['x', 'y'] }) => "/users?page=2&tag=x&tag=y"
+   *
+   * @throws If the name is unknown or a param is missing
+   */
+  url(name: string, params: UrlParams = {}, query?: UrlQuery): string {
+    const pattern = this._names.get(name);
+    if (pattern === undefined) {
+      throw new Error(`Unknown route name: ${name}`);
+    }
+
+    const count = splitPath(pattern);
+    let url = '';
+
+    for (let i = 0; i < count; i++) {
+      const seg = _segBuf[i];
+      const first = seg.charCodeAt(0);
+
+      if (first === 58 /* ':' */ || first === 42 /* '*' */) {
+        const param = first === 58 ? parseParamSegment(seg) : null;
+        const paramName = param ? param.name : seg.length > 1 ? seg.substring(1) : 'wildcard';
+        const value = params[paramName];
+        if (value === undefined || value === null) {
+          if (param && param.optional) continue;
+          throw new Error(`Missing param "${paramName}" for route "${name}" (${pattern})`);
+        }
+
+        if (first === 42) {
+          // Wildcard spans segments — keep the slashes, escape each part
+          url += '/' + String(value).split('/').map(encodeURIComponent).join('/');
+          break;
+        }
+        url += '/' + encodeURIComponent(String(value));
+      } else {
+        url += '/' + (seg.charCodeAt(seg.length - 1) === 63 /* '?' */ ? seg.substring(0, seg.length - 1) : seg);
+      }
+    }
+
+    if (url === '') url = '/';
+    else if (this._strictSlash && pattern.length > 1 && pattern.charCodeAt(pattern.length - 1) === 47) url += '/';
+    return query ? url + buildQueryString(query) : url;
+  }
+
+  /** Number of registered routes (static and dynamic) */
   get size(): number {
-    return this._static.size;
+    let size = this._entries.length;
+    if (this._hosts) {
+      for (const binding of this._hosts) size += binding.router.size;
+    }
+    return size;
   }
 }
@@ -0,0 +1,167 @@
+/**
+ * Server-Sent Events — text/event-stream over a held-open response
+ *
+ * Design decisions:
+ * - ctx.sse() writes the headers; the returned stream owns the response until close()
+ * - Socket writes and drain waits stay in Context — this module only formats frames
+ * - send() resolves once the socket can take more — await it for backpressure
+ * - Comment heartbeats keep proxies from timing out idle connections
+ * - Closed on close(), client abort or context release — onClose() hooks run once
+ */
+
+export interface SseEvent {
+  /** Event type — the browser dispatches "message" when omitted */
+  event?: string;
+  /** Strings are sent as-is (split per line), anything else as JSON */
+  data?: unknown;
+  /** Stored by the browser and sent back as Last-Event-ID on reconnect */
+  id?: string | number;
+  /** Reconnection delay in ms for the browser */
+  retry?: number;
+}
+
+export interface SseOptions {
+  /** Comment heartbeat interval in ms — 0 disables (default: 15000) */
+  heartbeat?: number;
+  /** Reconnection delay in ms sent when the stream opens */
+  retry?: number;
+}
+
+/** Writes one chunk — a Promise while the socket drains, false once it is gone */
+export type SseWriter = (chunk: string) => boolean | Promise<boolean>;
+
+const NEWLINE = /\r\n|\r|\n/;
+
+function assertField(name: string, value: string): void {
+  if (NEWLINE.test(value) || value.indexOf('\0') !== -1) {
+    throw new Error(`Invalid SSE ${name}: must not contain newlines or NUL`);
+  }
+}
+
+/**
+ * Serialize an event into an event-stream frame
+ * { event: "tick", data: "a\nb", id: 1 } => "event: tick\nid: 1\ndata: a\ndata: b\n\n"
+ */
+export function formatSseEvent(event: SseEvent): string {
+  let frame = '';
+
+  if (event.event !== undefined) {
+    assertField('event', event.event);
+    frame += `event: ${event.event}\n`;
+  }
+  if (event.id !== undefined) {
+    const id = String(event.id);
+    assertField('id', id);
+    frame += `id: ${id}\n`;
+  }
+  if (event.retry !== undefined) {
+    if (!Number.isInteger(event.retry) || event.retry < 0) {
+      throw new Error(`Invalid SSE retry: ${event.retry}`);
+    }
+    frame += `retry: ${event.retry}\n`;
+  }
+  if (event.data !== undefined) {
+    const data = typeof event.data === 'string' ? event.data : JSON.stringify(event.data);
+    for (const line of data.split(NEWLINE)) {
+      frame += `data: ${line}\n`;
+    }
+  }
+
+  return frame + '\n';
+}
+
+export class SseStream {
+  /** Last-Event-ID sent by a reconnecting browser — null on first connect */
+  readonly lastEventId: string | null;
+  /** Resolves when the stream closes — await it to keep the handler (and context) alive */
+  readonly closed: Promise<void>;
+  private _write: SseWriter | null;
+  private _end: (() => void) | null;
+  private _timer: ReturnType<typeof setInterval> | null = null;
+  private _onClose: (() => void)[] = [];
+  private _resolveClosed!: () => void;
+  /** Settles pending send() calls with false on close */
+  private _closing: Promise<boolean>;
+
+  constructor(write: SseWriter | null, end: (() => void) | null, lastEventId: string | null, options: SseOptions = {}) {
+    this._write = write;
+    this._end = end;
+    this.lastEventId = lastEventId;
+    this.closed = new Promise((resolve) => {
+      this._resolveClosed = resolve;
+    });
+    this._closing = this.closed.then(() => false);
+
+    if (!write) {
+      this._resolveClosed();
+      return;
+    }
+
+    write(options.retry !== undefined ? formatSseEvent({ retry: options.retry }) : ':\n\n');
+
+    const heartbeat = options.heartbeat ?? 15000;
+    if (heartbeat > 0) {
+      this._timer = setInterval(() => this.comment(), heartbeat);
+      this._timer.unref();
+    }
+  }
+
+  /** Closed by close(), client abort or context release */
+  get isClosed(): boolean {
+    return this._write === null;
+  }
+
+  /**
+   * Send an event — a string is shorthand for { data }
+   * Resolves true when the socket can take more, false once the stream is closed
+   */
+  send(event: SseEvent | string): Promise<boolean> {
+    const frame = formatSseEvent(typeof event === 'string' ? { data: event } : event);
+    return this._send(frame);
+  }
+
+  /** Send a comment line — ignored by the browser, keeps the connection warm */
+  comment(text = ''): Promise<boolean> {
+    assertField('comment', text);
+    return this._send(text ? `: ${text}\n\n` : ':\n\n');
+  }
+
+  /** Run fn when the stream closes — immediately if already closed */
+  onClose(fn: () => void): void {
+    if (this._write === null) fn();
+    else this._onClose.push(fn);
+  }
+
+  /** End the response — safe to call more than once */
+  close(): void {
+    if (this._write === null) return;
+    this._write = null;
+    if (this._timer) clearInterval(this._timer);
+    this._timer = null;
+
+    const end = this._end;
+    this._end = null;
+    if (end) end();
+
+    for (const fn of this._onClose) {
+      try {
+        fn();
+      } catch {
+        // A failing listener must not keep the others from running
+      }
+    }
+    this._onClose = [];
+    this._resolveClosed();
+  }
+
+  private _send(frame: string): Promise<boolean> {
+    if (this._write === null) return Promise.resolve(false);
+    const result = this._write(frame);
+    if (result === true) return Promise.resolve(true);
+    if (result === false) {
+      this.close();
+      return Promise.resolve(false);
+    }
+    return Promise.race([result, this._closing]);
+  }
+}
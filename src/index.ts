@@ -10,14 +10,61 @@
 // Core
 export { App } from './core/app.js';
 export type { PluginFn, LifecycleHook, WebSocketBehavior, AppStats } from './core/app.js';
-export { Router } from './core/router.js';
-export type { Handler, RouteMatch } from './core/router.js';
+export { Router, canonicalPath } from './core/router.js';
+export type {
+  Handler,
+  RouteHandlers,
+  RouteMatch,
+  RouteInfo,
+  RouteMeta,
+  RouteOptions,
+  RouteVersion,
+  RouterOptions,
+  ParamValue,
+  PathParams,
+  ParamType,
+  UrlParams,
+  UrlQuery,
+} from './core/router.js';
+export { RouteGroup, joinPath } from './core/group.js';
+export type { GroupFn, GroupArgs, RouteRegistrar } from './core/group.js';
 export { Context, ContextPool } from './core/context.js';
+export type { BodyStreamOptions, DefaultState } from './core/context.js';
 export { Container } from './core/container.js';
+export { BodyParserRegistry, defaultBodyParsers, mediaType, typeMatches } from './core/body.js';
+export type { BodyParser } from './core/body.js';
+export { MultipartParser, parseMultipart, readMultipart, multipartBoundary } from './core/multipart.js';
+export type {
+  MultipartOptions,
+  MultipartPart,
+  MultipartField,
+  MultipartFile,
+  MultipartResult,
+  UploadedFile,
+} from './core/multipart.js';
+export { AsyncQueue } from './core/async-queue.js';
+export { parseCookies, serializeCookie, signCookie, unsignCookie } from './core/cookies.js';
+export type { CookieOptions } from './core/cookies.js';
+export { parseQuery } from './core/query.js';
+export { SseStream, formatSseEvent } from './core/sse.js';
+export { negotiateEncoding, resolveCompression } from './core/compression.js';
+export type { CompressionEncoding, CompressionOptions, CompressionSettings } from './core/compression.js';
+export { computeEtag, etagMatches, isFresh } from './core/conditional.js';
+export type { EtagMode, Validators } from './core/conditional.js';
+export { acceptedTypes, acceptedLanguages, acceptedEncodings } from './core/negotiation.js';
+export { compileTrust } from './core/proxy.js';
+export type { TrustProxy, TrustFn } from './core/proxy.js';
+export type { SseEvent, SseOptions } from './core/sse.js';
+export type { QueryObject, QueryOptions, QueryValue } from './core/query.js';
 
 // Middleware
 export { executePipeline, composeMiddleware } from './core/middleware.js';
-export type { MiddlewareFn } from './core/middleware.js';
+export type { MiddlewareFn, StateMiddleware, StateOf, AddedState } from './core/middleware.js';
+export { bodyLimit } from './app/middleware/body-limit.js';
+export { serveStatic } from './app/middleware/static.js';
+export { compression } from './app/middleware/compression.js';
+export { etag } from './app/middleware/etag.js';
+export type { ServeStaticOptions, CacheControlRule } from './app/middleware/static.js';
 
 // Errors
 export {
@@ -26,7 +73,10 @@ export {
   unauthorized,
   forbidden,
   notFound,
+  notAcceptable,
   conflict,
+  payloadTooLarge,
+  unsupportedMediaType,
   tooManyRequests,
   internal,
   createErrorHandler,
@@ -38,7 +88,7 @@ export { Logger, createLogger, noopLogger, LogLevel } from './core/logger.js';
 export type { LoggerOptions, ILogger } from './core/logger.js';
 
 // Config
-export { loadConfig, env, envInt, envBool } from './core/config.js';
+export { loadConfig, env, envInt, envBool, envTrustProxy } from './core/config.js';
 export type { AppConfig, ConfigOverrides } from './core/config.js';
 
 // Validation (optional — tree-shaken if not imported)
@@ -56,4 +106,4 @@ export {
   isProtobufRequest,
   acceptsProtobuf,
 } from './app/middleware/protobuf.js';
-export type { ProtobufMiddlewareOptions } from './app/middleware/protobuf.js';
+export type { ProtobufMiddlewareOptions, ProtoState } from './app/middleware/protobuf.js';
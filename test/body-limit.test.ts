@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { App } from '../src/core/app.js';
+import { bodyLimit } from '../src/app/middleware/body-limit.js';
+import { request } from './helpers.js';
+
+function echoApp(limit: number): App {
+  const app = new App({ logging: { enabled: false }, bodyLimit: limit });
+  app.post('/echo', async (ctx) => {
+    const raw = await ctx.readRawBody();
+    ctx.json({ bytes: raw ? raw.length : 0 });
+  });
+  app.post('/big', bodyLimit(64), async (ctx) => {
+    const raw = await ctx.readRawBody();
+    ctx.json({ bytes: raw ? raw.length : 0 });
+  });
+  return app;
+}
+
+describe('request body limits', () => {
+  it('accepts bodies up to the limit', async () => {
+    const res = await request(echoApp(16), 'POST', '/echo', { body: ['12345678', '12345678'] });
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.json(), { bytes: 16 });
+  });
+
+  it('answers 413 for a Content-Length over the limit before reading', async () => {
+    const res = await request(echoApp(16), 'POST', '/echo', {
+      headers: { 'Content-Length': '17' },
+      body: 'x'.repeat(17),
+    });
+    assert.equal(res.status, 413);
+    assert.match(res.text(), /BODY_TOO_LARGE/);
+  });
+
+  it('answers 413 once streamed chunks pass the limit', async () => {
+    const res = await request(echoApp(16), 'POST', '/echo', { body: ['12345678', '12345678', '1'] });
+    assert.equal(res.status, 413);
+  });
+
+  it('lets bodyLimit() override the limit per route', async () => {
+    const app = echoApp(16);
+    assert.deepEqual((await request(app, 'POST', '/big', { body: 'x'.repeat(64) })).json(), { bytes: 64 });
+    assert.equal((await request(app, 'POST', '/big', { body: 'x'.repeat(65) })).status, 413);
+  });
+
+  it('rejects invalid limits at registration', () => {
+    assert.throws(() => bodyLimit(-1));
+    assert.throws(() => bodyLimit(NaN));
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Writable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { App } from '../src/core/app.js';
+import type { Context } from '../src/core/context.js';
+import { dispatch, request } from './helpers.js';
+
+function streamApp(handler: (ctx: Context) => Promise<void>): App {
+  const app = new App({ logging: { enabled: false }, bodyLimit: 1024 });
+  app.post('/stream', handler);
+  return app;
+}
+
+async function collect(ctx: Context, limit?: number): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of ctx.bodyStream({ limit })) chunks.push(chunk.toString());
+  return chunks;
+}
+
+describe('ctx.bodyStream()', () => {
+  it('yields the body chunk by chunk, in order', async () => {
+    const app = streamApp(async (ctx) => ctx.json({ chunks: await collect(ctx) }));
+    const res = await request(app, 'POST', '/stream', { body: ['a', 'b', 'c'] });
+    assert.deepEqual(res.json(), { chunks: ['a', 'b', 'c'] });
+  });
+
+  it('pauses the socket while the consumer lags and finishes the body', async () => {
+    const app = streamApp(async (ctx) => {
+      let bytes = 0;
+      for await (const chunk of ctx.bodyStream()) {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        bytes += chunk.length;
+      }
+      ctx.json({ bytes });
+    });
+
+    const inFlight = dispatch(app, 'POST', '/stream', { body: Array.from({ length: 40 }, () => 'x'.repeat(10)) });
+    await inFlight.finished;
+    assert.deepEqual(inFlight.response.json(), { bytes: 400 });
+    assert.ok(inFlight.pauses > 0);
+  });
+
+  it('throws 413 from the loop past the limit', async () => {
+    const app = streamApp(async (ctx) => ctx.json({ chunks: await collect(ctx, 4) }));
+    assert.equal((await request(app, 'POST', '/stream', { body: ['abc', 'de'] })).status, 413);
+
+    const declared = await request(app, 'POST', '/stream', { headers: { 'Content-Length': '5' }, body: 'abcde' });
+    assert.equal(declared.status, 413);
+  });
+
+  it('replays a body readRawBody() already buffered', async () => {
+    const app = streamApp(async (ctx) => {
+      await ctx.readRawBody();
+      ctx.json({ chunks: await collect(ctx) });
+    });
+    assert.deepEqual((await request(app, 'POST', '/stream', { body: ['ab', 'cd'] })).json(), { chunks: ['abcd'] });
+  });
+
+  it('refuses a second reader of the same body', async () => {
+    const app = streamApp(async (ctx) => {
+      ctx.bodyStream();
+      assert.throws(() => ctx.bodyStream(), /already being read/);
+      ctx.empty(204);
+    });
+    assert.equal((await request(app, 'POST', '/stream', { body: 'x' })).status, 204);
+  });
+
+  it('ends the iteration when the client aborts', async () => {
+    let settle!: (result: { aborted: boolean; chunks: number }) => void;
+    const outcome = new Promise<{ aborted: boolean; chunks: number }>((resolve) => (settle = resolve));
+    const app = streamApp(async (ctx) => {
+      let chunks = 0;
+      for await (const _chunk of ctx.bodyStream()) chunks++;
+      settle({ aborted: ctx.aborted, chunks });
+    });
+
+    const inFlight = dispatch(app, 'POST', '/stream', { body: ['a', 'b', 'c', 'd', 'e', 'f'] });
+    await new Promise(setImmediate);
+    await new Promise(setImmediate);
+    inFlight.abort();
+
+    const { aborted, chunks } = await outcome;
+    assert.equal(aborted, true);
+    assert.ok(chunks < 6);
+  });
+
+  it('adapts to Node and web streams', async () => {
+    const app = streamApp(async (ctx) => {
+      const parts: string[] = [];
+      await pipeline(
+        ctx.bodyReadable(),
+        new Writable({
+          write(chunk: Buffer, _encoding, callback) {
+            parts.push(chunk.toString());
+            callback();
+          },
+        })
+      );
+      ctx.json({ body: parts.join('') });
+    });
+    assert.deepEqual((await request(app, 'POST', '/stream', { body: ['ab', 'cd'] })).json(), { body: 'abcd' });
+
+    const web = streamApp(async (ctx) => {
+      ctx.json({ body: await new Response(ctx.bodyWebStream()).text() });
+    });
+    assert.deepEqual((await request(web, 'POST', '/stream', { body: ['ab', 'cd'] })).json(), { body: 'abcd' });
+  });
+});
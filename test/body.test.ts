@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { App } from '../src/core/app.js';
+import { mediaType, typeMatches } from '../src/core/body.js';
+import { request } from './helpers.js';
+
+function parseApp(): App {
+  const app = new App({ logging: { enabled: false } });
+  app.post('/parse', async (ctx) => {
+    ctx.json({ body: await ctx.readBody() });
+  });
+  return app;
+}
+
+function post(app: App, contentType: string | undefined, body: string) {
+  return request(app, 'POST', '/parse', {
+    headers: contentType ? { 'Content-Type': contentType } : {},
+    body,
+  });
+}
+
+describe('body parsing', () => {
+  it('parses JSON and answers 400 on a syntax error', async () => {
+    const app = parseApp();
+    assert.deepEqual((await post(app, 'application/json; charset=utf-8', '{"a":1}')).json(), { body: { a: 1 } });
+
+    const bad = await post(app, 'application/json', '{"a":');
+    assert.equal(bad.status, 400);
+    assert.match(bad.text(), /INVALID_JSON/);
+  });
+
+  it('parses +json media types as JSON', async () => {
+    const res = await post(parseApp(), 'application/vnd.api+json', '{"data":[]}');
+    assert.deepEqual(res.json(), { body: { data: [] } });
+  });
+
+  it('parses urlencoded bodies, collecting repeated keys', async () => {
+    const res = await post(parseApp(), 'application/x-www-form-urlencoded', 'a=1&b=2&b=3&c=x+y');
+    assert.deepEqual(res.json(), { body: { a: '1', b: ['2', '3'], c: 'x y' } });
+  });
+
+  it('keeps urlencoded fields named like Object.prototype members', async () => {
+    const res = await post(parseApp(), 'application/x-www-form-urlencoded', 'constructor=a&valueOf=b&__proto__=c');
+    assert.deepEqual(res.json(), { body: { constructor: 'a', valueOf: 'b' } });
+  });
+
+  it('parses text/* as a string', async () => {
+    assert.deepEqual((await post(parseApp(), 'text/csv', 'a,b')).json(), { body: 'a,b' });
+  });
+
+  it('answers 415 for unknown or missing content types', async () => {
+    const app = parseApp();
+    assert.equal((await post(app, 'application/xml', '<a/>')).status, 415);
+    assert.equal((await post(app, undefined, 'x')).status, 415);
+  });
+
+  it('uses parsers registered on the app, and a mounted child falls back to them', async () => {
+    const parent = new App({ logging: { enabled: false } });
+    parent.bodyParser('application/xml', (raw) => ({ xml: raw.toString() }));
+    const child = new App({ logging: { enabled: false } });
+    child.post('/parse', async (ctx) => {
+      ctx.json({ body: await ctx.readBody() });
+    });
+    parent.mount('/child', child);
+
+    const res = await request(parent, 'POST', '/child/parse', {
+      headers: { 'Content-Type': 'application/xml' },
+      body: '<a/>',
+    });
+    assert.deepEqual(res.json(), { body: { xml: '<a/>' } });
+  });
+});
+
+describe('mediaType / typeMatches', () => {
+  it('drops parameters and lowercases', () => {
+    assert.equal(mediaType('Application/JSON; charset=utf-8'), 'application/json');
+    assert.equal(mediaType(undefined), '');
+  });
+
+  it('matches aliases, wildcards and suffixes', () => {
+    assert.ok(typeMatches('application/json', 'json'));
+    assert.ok(typeMatches('text/html', 'text/*'));
+    assert.ok(typeMatches('application/vnd.api+json', '+json'));
+    assert.ok(typeMatches('image/png', '*/*'));
+    assert.ok(!typeMatches('text/html', 'json'));
+    assert.ok(!typeMatches('', '*/*'));
+  });
+});
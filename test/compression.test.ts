@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import zlib from 'node:zlib';
+import { App } from '../src/core/app.js';
+import { compression } from '../src/app/middleware/compression.js';
+import { negotiateEncoding, resolveCompression } from '../src/core/compression.js';
+import type { CompressionOptions } from '../src/core/compression.js';
+import { request } from './helpers.js';
+
+const TEXT = 'blazy '.repeat(400);
+
+function compressedApp(opts?: CompressionOptions): App {
+  const app = new App({ logging: { enabled: false } });
+  app.use(compression(opts));
+  app.get('/text', (ctx) => ctx.send(TEXT, 'text/plain; charset=utf-8'));
+  app.get('/small', (ctx) => ctx.send('tiny', 'text/plain'));
+  app.get('/image', (ctx) => ctx.send(TEXT, 'image/png'));
+  app.get('/raw', (ctx) => {
+    ctx.setHeader('Cache-Control', 'no-transform');
+    ctx.send(TEXT, 'text/plain');
+  });
+  app.get('/stream', async (ctx) => {
+    await ctx.stream([Buffer.from(TEXT), Buffer.from(TEXT)], 'text/plain', 200, TEXT.length * 2);
+  });
+  return app;
+}
+
+describe('compression', () => {
+  it('compresses with the client-preferred encoding and sends Vary', async () => {
+    const app = compressedApp();
+
+    const br = await request(app, 'GET', '/text', { headers: { 'Accept-Encoding': 'gzip, br' } });
+    assert.equal(br.header('Content-Encoding'), 'br');
+    assert.equal(zlib.brotliDecompressSync(br.body).toString(), TEXT);
+    assert.deepEqual(br.headerValues('Vary'), ['Accept-Encoding']);
+
+    const gzip = await request(app, 'GET', '/text', { headers: { 'Accept-Encoding': 'gzip, br;q=0.1' } });
+    assert.equal(gzip.header('Content-Encoding'), 'gzip');
+    assert.equal(zlib.gunzipSync(gzip.body).toString(), TEXT);
+  });
+
+  it('sends identity when nothing offered is acceptable', async () => {
+    const res = await request(compressedApp({ encodings: ['gzip'] }), 'GET', '/text', {
+      headers: { 'Accept-Encoding': 'br' },
+    });
+    assert.equal(res.header('Content-Encoding'), undefined);
+    assert.equal(res.text(), TEXT);
+    assert.deepEqual(res.headerValues('Vary'), ['Accept-Encoding']);
+  });
+
+  it('skips bodies under the threshold, other types and no-transform', async () => {
+    const app = compressedApp();
+    const headers = { 'Accept-Encoding': 'gzip' };
+
+    const small = await request(app, 'GET', '/small', { headers });
+    assert.equal(small.header('Content-Encoding'), undefined);
+    assert.equal(small.text(), 'tiny');
+
+    const image = await request(app, 'GET', '/image', { headers });
+    assert.equal(image.header('Content-Encoding'), undefined);
+    assert.equal(image.header('Vary'), undefined);
+
+    assert.equal((await request(app, 'GET', '/raw', { headers })).header('Content-Encoding'), undefined);
+
+    const forced = await request(compressedApp({ threshold: 0 }), 'GET', '/small', { headers });
+    assert.equal(zlib.gunzipSync(forced.body).toString(), 'tiny');
+  });
+
+  it('compresses streams, sent without a Content-Length', async () => {
+    const res = await request(compressedApp(), 'GET', '/stream', { headers: { 'Accept-Encoding': 'gzip' } });
+    assert.equal(res.header('Content-Encoding'), 'gzip');
+    assert.equal(res.header('Content-Length'), undefined);
+    assert.equal(zlib.gunzipSync(res.body).toString(), TEXT + TEXT);
+  });
+
+  it('leaves HEAD responses uncompressed', async () => {
+    const res = await request(compressedApp(), 'HEAD', '/text', { headers: { 'Accept-Encoding': 'gzip' } });
+    assert.equal(res.header('Content-Encoding'), undefined);
+    assert.equal(res.body.length, 0);
+  });
+});
+
+describe('negotiateEncoding / resolveCompression', () => {
+  it('follows q-values, then server order', () => {
+    assert.equal(negotiateEncoding('gzip;q=0.8, br', ['gzip', 'br']), 'br');
+    assert.equal(negotiateEncoding('gzip, br', ['gzip', 'br']), 'gzip');
+    assert.equal(negotiateEncoding('*', ['br', 'gzip']), 'br');
+    assert.equal(negotiateEncoding('gzip;q=0', ['gzip']), null);
+    assert.equal(negotiateEncoding(undefined, ['gzip']), null);
+  });
+
+  it('rejects unknown encodings', () => {
+    assert.throws(() => resolveCompression({ encodings: ['lzma' as 'gzip'] }), /Unknown compression encoding/);
+  });
+});
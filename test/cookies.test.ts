@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCookies, serializeCookie, signCookie, unsignCookie } from '../src/core/cookies.js';
+
+describe('parseCookies', () => {
+  it('parses and decodes values', () => {
+    assert.deepEqual(parseCookies('a=1; b=%20x; c="quoted"'), { a: '1', b: ' x', c: 'quoted' });
+  });
+
+  it('keeps the first occurrence of a name', () => {
+    assert.deepEqual(parseCookies('a=1; a=2'), { a: '1' });
+  });
+
+  it('keeps malformed encodings raw', () => {
+    assert.deepEqual(parseCookies('a=%E0%A4%A'), { a: '%E0%A4%A' });
+  });
+
+  it('keeps names shared with Object.prototype and drops __proto__', () => {
+    const cookies = parseCookies('constructor=1; toString=2; __proto__=3');
+    assert.equal(cookies.constructor, '1');
+    assert.equal(cookies.toString, '2');
+    assert.equal(Object.getPrototypeOf(cookies), Object.prototype);
+  });
+
+  it('returns an empty object without a header', () => {
+    assert.deepEqual(parseCookies(undefined), {});
+  });
+});
+
+describe('serializeCookie', () => {
+  it('encodes the value and defaults the path', () => {
+    assert.equal(serializeCookie('id', 'a b'), 'id=a%20b; Path=/');
+  });
+
+  it('writes attributes', () => {
+    assert.equal(
+      serializeCookie('id', '1', { maxAge: 60.9, httpOnly: true, secure: true, sameSite: 'lax', priority: 'high' }),
+      'id=1; Max-Age=60; Path=/; HttpOnly; Secure; SameSite=Lax; Priority=High'
+    );
+  });
+
+  it('throws on invalid names and attribute combinations', () => {
+    assert.throws(() => serializeCookie('bad name', '1'));
+    assert.throws(() => serializeCookie('id', '1', { path: '/; Domain=evil' }));
+    assert.throws(() => serializeCookie('id', '1', { sameSite: 'none' }));
+    assert.throws(() => serializeCookie('id', '1', { partitioned: true }));
+  });
+});
+
+describe('signed cookies', () => {
+  it('round-trips and verifies with any secret', () => {
+    const signed = signCookie('user.42', 'old');
+    assert.equal(unsignCookie(signed, ['new', 'old']), 'user.42');
+  });
+
+  it('rejects tampered and unsigned values', () => {
+    const signed = signCookie('user.42', 'secret');
+    assert.equal(unsignCookie(signed.replace('42', '43'), ['secret']), false);
+    assert.equal(unsignCookie(signed, ['other']), false);
+    assert.equal(unsignCookie('user.42', ['secret']), false);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { App } from '../src/core/app.js';
+import { etag } from '../src/app/middleware/etag.js';
+import { compression } from '../src/app/middleware/compression.js';
+import { computeEtag, etagMatches, isFresh } from '../src/core/conditional.js';
+import { request } from './helpers.js';
+
+const LIST = { users: Array.from({ length: 100 }, (_, i) => ({ id: i, name: `user-${i}` })) };
+
+function listApp(mode: 'weak' | 'strong' | false = 'weak'): App {
+  const app = new App({ logging: { enabled: false }, etag: mode });
+  app.get('/users', (ctx) => ctx.json(LIST));
+  app.post('/users', (ctx) => ctx.json(LIST, 201));
+  return app;
+}
+
+describe('body ETags', () => {
+  it('tags GET bodies and answers 304 on a match', async () => {
+    const app = listApp();
+    const first = await request(app, 'GET', '/users');
+    const tag = first.header('ETag')!;
+    assert.match(tag, /^W\/"/);
+
+    const cached = await request(app, 'GET', '/users', { headers: { 'If-None-Match': tag } });
+    assert.equal(cached.status, 304);
+    assert.equal(cached.header('ETag'), tag);
+    assert.equal(cached.body.length, 0);
+
+    const changed = await request(app, 'GET', '/users', { headers: { 'If-None-Match': '"other"' } });
+    assert.equal(changed.status, 200);
+  });
+
+  it('sends strong tags in strong mode, none when disabled or for writes', async () => {
+    assert.match((await request(listApp('strong'), 'GET', '/users')).header('ETag')!, /^"/);
+    assert.equal((await request(listApp(false), 'GET', '/users')).header('ETag'), undefined);
+    assert.equal((await request(listApp(), 'POST', '/users')).header('ETag'), undefined);
+  });
+
+  it('lets etag() override the config per route', async () => {
+    const app = new App({ logging: { enabled: false } });
+    app.get('/tagged', etag('strong'), (ctx) => ctx.json({ a: 1 }));
+    app.get('/plain', (ctx) => ctx.json({ a: 1 }));
+    assert.match((await request(app, 'GET', '/tagged')).header('ETag')!, /^"/);
+    assert.equal((await request(app, 'GET', '/plain')).header('ETag'), undefined);
+    assert.throws(() => etag('medium' as 'weak'), /Invalid etag mode/);
+  });
+
+  it('keeps a validator the handler set with notModified()', async () => {
+    const app = listApp();
+    let bodies = 0;
+    app.get('/versioned', (ctx) => {
+      if (ctx.notModified({ etag: 'v7' })) return;
+      bodies++;
+      ctx.json(LIST);
+    });
+
+    assert.equal((await request(app, 'GET', '/versioned')).header('ETag'), '"v7"');
+    const cached = await request(app, 'GET', '/versioned', { headers: { 'If-None-Match': '"v7"' } });
+    assert.equal(cached.status, 304);
+    assert.equal(bodies, 1);
+  });
+
+  it('gives a compressed 304 the same weakened ETag and Vary as its 200', async () => {
+    const app = listApp('strong');
+    app.use(compression({ threshold: 0 }));
+    const headers = { 'Accept-Encoding': 'gzip' };
+
+    const full = await request(app, 'GET', '/users', { headers });
+    assert.equal(full.header('Content-Encoding'), 'gzip');
+    const tag = full.header('ETag')!;
+    assert.match(tag, /^W\/"/);
+
+    const cached = await request(app, 'GET', '/users', { headers: { ...headers, 'If-None-Match': tag } });
+    assert.equal(cached.status, 304);
+    assert.equal(cached.header('ETag'), tag);
+    assert.deepEqual(cached.headerValues('Vary'), full.headerValues('Vary'));
+    assert.deepEqual(cached.headerValues('Vary'), ['Accept-Encoding']);
+  });
+});
+
+describe('computeEtag / etagMatches / isFresh', () => {
+  it('hashes the body, weak by default', () => {
+    assert.equal(computeEtag('abc'), computeEtag(Buffer.from('abc')));
+    assert.notEqual(computeEtag('abc'), computeEtag('abd'));
+    assert.equal(computeEtag('abc', 'strong'), computeEtag('abc').substring(2));
+  });
+
+  it('compares weakly across lists and *', () => {
+    assert.ok(etagMatches('"a", W/"b"', '"b"'));
+    assert.ok(etagMatches('*', '"x"'));
+    assert.ok(!etagMatches('"a"', '"b"'));
+  });
+
+  it('lets If-None-Match win over If-Modified-Since', () => {
+    const modified = new Date('2026-01-01T00:00:00Z');
+    assert.ok(isFresh(undefined, modified.toUTCString(), undefined, modified));
+    assert.ok(!isFresh('"other"', modified.toUTCString(), '"tag"', modified));
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Test helpers — drive an App without a server
+ *
+ * A fake uWS HttpRequest/HttpResponse pair goes straight into the app's
+ * request handler, after the same per-route compilation listen() does.
+ * Bodies arrive over onData in chunks (honouring pause/resume), the
+ * response is recorded, and abort() fires onAborted like a client disconnect.
+ */
+
+import type { HttpRequest, HttpResponse } from 'uWebSockets.js';
+import type { App } from '../src/core/app.js';
+
+export interface TestRequest {
+  headers?: Record<string, string>;
+  /** One chunk per entry — a string or Buffer is sent as one chunk */
+  body?: string | Buffer | (string | Buffer)[];
+  /** Socket peer address (default: 127.0.0.1) */
+  remoteAddress?: string;
+}
+
+export interface TestResponse {
+  status: number;
+  /** In write order — repeated names kept */
+  headers: [string, string][];
+  body: Buffer;
+  /** Bytes written so far, one entry per write — what an SSE client would have seen */
+  writes: Buffer[];
+  /** Closed by the server (res.close()) instead of ended */
+  closed: boolean;
+  /** First value of a header, case-insensitive */
+  header(name: string): string | undefined;
+  /** Every value of a header, case-insensitive */
+  headerValues(name: string): string[];
+  text(): string;
+  json(): unknown;
+}
+
+export interface Dispatch {
+  response: TestResponse;
+  /** Settles when the response is ended, closed or aborted */
+  finished: Promise<void>;
+  /** Client disconnect — fires the response's onAborted handler */
+  abort(): void;
+  /** Times the app paused the request body (backpressure) */
+  readonly pauses: number;
+}
+
+const compiled = new WeakSet<object>();
+
+function toBuffer(chunk: string | Buffer | Uint8Array | ArrayBuffer): Buffer {
+  if (typeof chunk === 'string') return Buffer.from(chunk);
+  return Buffer.from(chunk instanceof ArrayBuffer ? new Uint8Array(chunk) : chunk);
+}
+
+/** Start a request — inspect the response while it is still streaming */
+export function dispatch(app: App<any>, method: string, url: string, init: TestRequest = {}): Dispatch {
+  const internals = app as unknown as {
+    _compile(): void;
+    _handleRequest(res: HttpResponse, req: HttpRequest): void;
+  };
+  if (!compiled.has(app)) {
+    internals._compile();
+    compiled.add(app);
+  }
+
+  const headers: [string, string][] = [];
+  const writes: Buffer[] = [];
+  const response: TestResponse = {
+    status: 200, // uWS sends 200 OK unless writeStatus() says otherwise
+    headers,
+    body: Buffer.alloc(0),
+    writes,
+    closed: false,
+    header: (name) => response.headerValues(name)[0],
+    headerValues: (name) =>
+      headers.filter(([key]) => key.toLowerCase() === name.toLowerCase()).map(([, value]) => value),
+    text: () => response.body.toString(),
+    json: () => JSON.parse(response.body.toString()),
+  };
+
+  let finish!: () => void;
+  const finished = new Promise<void>((resolve) => (finish = resolve));
+  let done = false;
+  const end = (): void => {
+    if (done) return;
+    done = true;
+    response.body = Buffer.concat(writes);
+    finish();
+  };
+
+  let aborted: (() => void) | null = null;
+  let written = 0;
+  const write = (chunk?: string | Buffer | ArrayBuffer): void => {
+    if (chunk === undefined) return;
+    const buf = toBuffer(chunk);
+    written += buf.length;
+    writes.push(buf);
+    response.body = Buffer.concat(writes);
+  };
+
+  const chunks = init.body === undefined ? [] : Array.isArray(init.body) ? init.body : [init.body];
+  let paused = false;
+  let pauses = 0;
+  let next = 0;
+  let onData: ((chunk: ArrayBuffer, isLast: boolean) => void) | null = null;
+  const pump = (): void => {
+    if (paused || done || !onData) return;
+    const buf = next < chunks.length ? toBuffer(chunks[next]) : Buffer.alloc(0);
+    next++;
+    const isLast = next >= chunks.length;
+    // uWS hands out a view that dies after the callback — copy, as it would
+    onData(buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.length) as ArrayBuffer, isLast);
+    if (!isLast) setImmediate(pump);
+  };
+
+  const res = {
+    cork(fn: () => void) {
+      fn();
+      return res;
+    },
+    writeStatus(status: string) {
+      response.status = Number(status.substring(0, 3));
+      return res;
+    },
+    writeHeader(key: string, value: string) {
+      headers.push([key, value]);
+      return res;
+    },
+    write(chunk: string | Buffer | ArrayBuffer) {
+      write(chunk);
+      return true;
+    },
+    tryEnd(chunk: string | Buffer | ArrayBuffer, total: number) {
+      write(chunk);
+      const ended = written >= total;
+      if (ended) end();
+      return [true, ended];
+    },
+    end(chunk?: string | Buffer | ArrayBuffer) {
+      write(chunk);
+      end();
+      return res;
+    },
+    endWithoutBody() {
+      end();
+      return res;
+    },
+    close() {
+      response.closed = true;
+      end();
+      return res;
+    },
+    onAborted(handler: () => void) {
+      aborted = handler;
+      return res;
+    },
+    // write() never reports backpressure here — nothing waits for a drain
+    onWritable() {
+      return res;
+    },
+    onData(handler: (chunk: ArrayBuffer, isLast: boolean) => void) {
+      onData = handler;
+      setImmediate(pump);
+      return res;
+    },
+    pause() {
+      if (!paused) pauses++;
+      paused = true;
+    },
+    resume() {
+      if (!paused) return;
+      paused = false;
+      setImmediate(pump);
+    },
+    getWriteOffset: () => written,
+    getRemoteAddressAsText: () => Buffer.from(init.remoteAddress ?? '127.0.0.1'),
+  };
+
+  const lowered = Object.entries(init.headers ?? {}).map(([key, value]) => [key.toLowerCase(), value] as const);
+  const q = url.indexOf('?');
+  const req = {
+    getMethod: () => method.toLowerCase(),
+    getUrl: () => (q === -1 ? url : url.substring(0, q)),
+    getQuery: () => (q === -1 ? '' : url.substring(q + 1)),
+    getHeader: (key: string) => lowered.find(([name]) => name === key)?.[1] ?? '',
+    forEach(cb: (key: string, value: string) => void) {
+      for (const [key, value] of lowered) cb(key, value);
+    },
+  };
+
+  internals._handleRequest(res as unknown as HttpResponse, req as unknown as HttpRequest);
+
+  return {
+    response,
+    finished,
+    abort() {
+      if (done) return;
+      const handler = aborted;
+      end();
+      if (handler) handler();
+    },
+    get pauses() {
+      return pauses;
+    },
+  };
+}
+
+/** Run a request to completion */
+export async function request(app: App<any>, method: string, url: string, init: TestRequest = {}): Promise<TestResponse> {
+  const { response, finished } = dispatch(app, method, url, init);
+  await finished;
+  return response;
+}
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { App } from '../src/core/app.js';
+import { notFound } from '../src/core/errors.js';
+import type { MiddlewareFn } from '../src/core/middleware.js';
+import { request } from './helpers.js';
+
+function quietApp(): App {
+  return new App({ logging: { enabled: false } });
+}
+
+/** Appends `name` to ctx.state.trace — records middleware order */
+function trace(name: string): MiddlewareFn {
+  return (ctx, next) => {
+    ctx.state.trace = [...((ctx.state.trace as string[] | undefined) ?? []), name];
+    return next();
+  };
+}
+
+describe('App.mount', () => {
+  it('serves child routes under the prefix, parent then child global middleware', async () => {
+    const parent = quietApp().use(trace('parent'));
+    const child = quietApp().use(trace('child'));
+    child.get('/stats', trace('route'), (ctx) => ctx.json({ trace: ctx.state.trace }));
+    parent.mount('/admin', child);
+
+    const res = await request(parent, 'GET', '/admin/stats');
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.json(), { trace: ['parent', 'child', 'route'] });
+  });
+
+  it('keeps the child global middleware out of parent routes', async () => {
+    const parent = quietApp();
+    const child = quietApp().use(trace('child'));
+    child.get('/x', (ctx) => ctx.empty(204));
+    parent.mount('/admin', child);
+    parent.get('/home', (ctx) => ctx.json({ trace: ctx.state.trace ?? null }));
+
+    assert.deepEqual((await request(parent, 'GET', '/home')).json(), { trace: null });
+  });
+
+  it('switches ctx.app to the child and restores it after the child chain', async () => {
+    const parent = quietApp();
+    const child = quietApp();
+    const seen: string[] = [];
+    parent.use(async (ctx, next) => {
+      await next();
+      seen.push(ctx.app === parent ? 'parent' : 'other');
+    });
+    child.get('/x', (ctx) => {
+      seen.push(ctx.app === child ? 'child' : 'other');
+      ctx.empty(204);
+    });
+    parent.mount('/admin', child);
+
+    await request(parent, 'GET', '/admin/x');
+    await new Promise(setImmediate); // the response ends inside the child handler
+    assert.deepEqual(seen, ['child', 'parent']);
+  });
+
+  it('answers unhandled child errors from the child', async () => {
+    const parent = quietApp();
+    const child = quietApp();
+    child.get('/missing', () => {
+      throw notFound('No such report');
+    });
+    parent.mount('/admin', child);
+
+    const res = await request(parent, 'GET', '/admin/missing');
+    assert.equal(res.status, 404);
+  });
+
+  it('forwards routes added to the child after mounting, and their names', async () => {
+    const parent = quietApp();
+    const child = quietApp();
+    parent.mount('/admin', child);
+    child.get('/users/:id', (ctx) => ctx.json({ id: ctx.params!.id })).as('admin.user');
+
+    assert.deepEqual((await request(parent, 'GET', '/admin/users/7')).json(), { id: '7' });
+    assert.equal(parent.url('admin.user', { id: 7 }), '/admin/users/7');
+  });
+
+  it('rejects a duplicate child route without registering it anywhere', () => {
+    const parent = quietApp();
+    const child = quietApp();
+    child.get('/x', (ctx) => ctx.empty(204));
+    parent.mount('/admin', child);
+
+    assert.throws(() => child.get('/x', (ctx) => ctx.empty(204)));
+    assert.equal(child.router.routes().length, 1);
+    assert.equal(parent.router.routes().filter((route) => route.path === '/admin/x').length, 1);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, readFileSync } from 'node:fs';
+import { App } from '../src/core/app.js';
+import type { MultipartResult } from '../src/core/multipart.js';
+import { dispatch, request } from './helpers.js';
+
+const BOUNDARY = 'test-boundary';
+const CONTENT_TYPE = `multipart/form-data; boundary=${BOUNDARY}`;
+
+interface Part {
+  name: string;
+  value: string;
+  filename?: string;
+}
+
+function form(parts: Part[]): Buffer {
+  let body = '';
+  for (const part of parts) {
+    body += `--${BOUNDARY}\r\nContent-Disposition: form-data; name="${part.name}"`;
+    if (part.filename) body += `; filename="${part.filename}"\r\nContent-Type: text/plain`;
+    body += `\r\n\r\n${part.value}\r\n`;
+  }
+  return Buffer.from(body + `--${BOUNDARY}--\r\n`);
+}
+
+/** Small chunks so boundaries and headers straddle onData calls */
+function chunked(body: Buffer, size = 7): Buffer[] {
+  const chunks: Buffer[] = [];
+  for (let i = 0; i < body.length; i += size) chunks.push(body.subarray(i, i + size));
+  return chunks;
+}
+
+function readApp(onResult: (result: MultipartResult) => void = () => {}): App {
+  const app = new App({ logging: { enabled: false } });
+  app.post('/upload', async (ctx) => {
+    const result = await ctx.readMultipart({ maxFileSize: 64 });
+    onResult(result);
+    ctx.json({
+      fields: result.fields,
+      files: result.files.map((file) => ({
+        name: file.name,
+        filename: file.filename,
+        size: file.size,
+        content: readFileSync(file.path, 'utf8'),
+      })),
+    });
+  });
+  return app;
+}
+
+describe('readMultipart', () => {
+  it('collects fields and writes files to disk across chunk boundaries', async () => {
+    const body = form([
+      { name: 'title', value: 'Hello' },
+      { name: 'tag', value: 'a' },
+      { name: 'tag', value: 'b' },
+      { name: 'doc', value: 'file contents', filename: 'doc.txt' },
+    ]);
+    const res = await request(readApp(), 'POST', '/upload', {
+      headers: { 'Content-Type': CONTENT_TYPE },
+      body: chunked(body),
+    });
+
+    assert.deepEqual(res.json(), {
+      fields: { title: 'Hello', tag: ['a', 'b'] },
+      files: [{ name: 'doc', filename: 'doc.txt', size: 13, content: 'file contents' }],
+    });
+  });
+
+  it('keeps fields named like Object.prototype members', async () => {
+    const body = form([
+      { name: 'constructor', value: 'val' },
+      { name: 'toString', value: 'v2' },
+      { name: '__proto__', value: 'x' },
+    ]);
+    const res = await request(readApp(), 'POST', '/upload', { headers: { 'Content-Type': CONTENT_TYPE }, body });
+
+    assert.deepEqual(res.json(), { fields: { constructor: 'val', toString: 'v2' }, files: [] });
+  });
+
+  it('removes temp files once the request is done', async () => {
+    let path = '';
+    const app = readApp((result) => (path = result.files[0].path));
+    await request(app, 'POST', '/upload', {
+      headers: { 'Content-Type': CONTENT_TYPE },
+      body: form([{ name: 'doc', value: 'x', filename: 'x.txt' }]),
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    assert.ok(path);
+    assert.equal(existsSync(path), false);
+  });
+
+  it('answers 413 for a file over maxFileSize', async () => {
+    const res = await request(readApp(), 'POST', '/upload', {
+      headers: { 'Content-Type': CONTENT_TYPE },
+      body: chunked(form([{ name: 'doc', value: 'x'.repeat(65), filename: 'big.txt' }])),
+    });
+    assert.equal(res.status, 413);
+    assert.match(res.text(), /FILE_TOO_LARGE/);
+  });
+
+  it('answers 400 for a body that is not multipart', async () => {
+    const res = await request(readApp(), 'POST', '/upload', {
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}',
+    });
+    assert.equal(res.status, 400);
+    assert.match(res.text(), /INVALID_MULTIPART/);
+  });
+});
+
+describe('ctx.multipart() streaming', () => {
+  it('finishes when the handler stops reading early', async () => {
+    const app = new App({ logging: { enabled: false } });
+    app.post('/first', async (ctx) => {
+      for await (const part of ctx.multipart()) {
+        ctx.json({ first: part.name });
+        break;
+      }
+    });
+
+    const res = await request(app, 'POST', '/first', {
+      headers: { 'Content-Type': CONTENT_TYPE },
+      body: chunked(form([
+        { name: 'doc', value: 'x'.repeat(200), filename: 'a.txt' },
+        { name: 'after', value: 'y' },
+      ])),
+    });
+    assert.deepEqual(res.json(), { first: 'doc' });
+  });
+
+  it('fails the file stream with ABORTED when the client disconnects', async () => {
+    const app = new App({ logging: { enabled: false } });
+    let settle!: (code: string) => void;
+    const outcome = new Promise<string>((resolve) => (settle = resolve));
+    app.post('/upload', async (ctx) => {
+      try {
+        for await (const part of ctx.multipart()) {
+          if (part.kind === 'file') for await (const _chunk of part.stream);
+        }
+        settle('completed');
+      } catch (err) {
+        settle((err as { code?: string }).code ?? 'unknown');
+      }
+    });
+
+    const body = form([{ name: 'doc', value: 'x'.repeat(500), filename: 'a.txt' }]);
+    const inFlight = dispatch(app, 'POST', '/upload', {
+      headers: { 'Content-Type': CONTENT_TYPE },
+      body: chunked(body, 100),
+    });
+    await new Promise(setImmediate);
+    await new Promise(setImmediate);
+    inFlight.abort();
+
+    assert.equal(await outcome, 'ABORTED');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { acceptedEncodings, acceptedLanguages, acceptedTypes } from '../src/core/negotiation.js';
+
+describe('acceptedTypes', () => {
+  it('accepts every offer in caller order without a header', () => {
+    assert.deepEqual(acceptedTypes(undefined, ['json', 'html']), ['json', 'html']);
+  });
+
+  it('orders by q, then specificity, then caller order', () => {
+    assert.deepEqual(acceptedTypes('application/json;q=0.5, text/html', ['json', 'html']), ['html', 'json']);
+    assert.deepEqual(acceptedTypes('text/*, text/html', ['text/plain', 'text/html']), ['text/html', 'text/plain']);
+    assert.deepEqual(acceptedTypes('*/*', ['json', 'html']), ['json', 'html']);
+  });
+
+  it('takes the q of the most specific matching range', () => {
+    assert.deepEqual(acceptedTypes('text/*;q=0.2, text/html;q=0.9', ['text/plain', 'text/html']), [
+      'text/html',
+      'text/plain',
+    ]);
+  });
+
+  it('excludes offers with q=0 even under a wildcard', () => {
+    assert.deepEqual(acceptedTypes('*/*, application/json;q=0', ['json', 'html']), ['html']);
+  });
+
+  it('returns nothing when no offer is acceptable', () => {
+    assert.deepEqual(acceptedTypes('image/png', ['json']), []);
+  });
+
+  it('resolves short names and is case-insensitive', () => {
+    assert.deepEqual(acceptedTypes('Application/X-Protobuf', ['json', 'protobuf']), ['protobuf']);
+  });
+});
+
+describe('acceptedLanguages', () => {
+  it('lets a language range accept its subtags', () => {
+    assert.deepEqual(acceptedLanguages('en;q=0.8, de', ['en-US', 'de-DE', 'fr']), ['de-DE', 'en-US']);
+  });
+});
+
+describe('acceptedEncodings', () => {
+  it('keeps identity acceptable unless excluded', () => {
+    assert.deepEqual(acceptedEncodings('gzip', ['br', 'gzip', 'identity']), ['gzip', 'identity']);
+    assert.deepEqual(acceptedEncodings('gzip, identity;q=0', ['gzip', 'identity']), ['gzip']);
+    assert.deepEqual(acceptedEncodings('*;q=0', ['gzip', 'identity']), []);
+  });
+
+  it('treats x-gzip as gzip', () => {
+    assert.deepEqual(acceptedEncodings('x-gzip', ['gzip']), ['gzip']);
+  });
+
+  it('accepts an empty header as identity only', () => {
+    assert.deepEqual(acceptedEncodings('', ['gzip', 'identity']), ['identity']);
+  });
+});
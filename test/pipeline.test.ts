@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { App } from '../src/core/app.js';
+import type { MiddlewareFn } from '../src/core/middleware.js';
+import { dispatch, request } from './helpers.js';
+
+function quietApp(): App {
+  return new App({ logging: { enabled: false } });
+}
+
+/** Sets X-Seen on every response that passed through it — even errors */
+const seen: MiddlewareFn = (ctx, next) => {
+  ctx.setHeader('X-Seen', 'yes');
+  return next();
+};
+
+describe('precompiled route pipelines', () => {
+  it('composes global middleware, route middleware and handler into one chain', () => {
+    const app = quietApp().use(seen);
+    const routeMw: MiddlewareFn = (_ctx, next) => next();
+    const handler: MiddlewareFn = (ctx) => ctx.empty(204);
+    app.get('/users/:id', routeMw, handler);
+
+    dispatch(app, 'GET', '/users/1');
+    assert.deepEqual(app.router.match('GET', '/users/1')?.chain, [seen, routeMw, handler]);
+  });
+
+  it('runs a synchronous chain to completion before returning', () => {
+    const app = quietApp().use(seen);
+    app.get('/', (ctx) => ctx.json({ ok: true }));
+
+    const { response } = dispatch(app, 'GET', '/');
+    assert.equal(response.text(), '{"ok":true}');
+  });
+
+  it('runs the middleware in order around async handlers', async () => {
+    const app = quietApp();
+    const order: string[] = [];
+    app.use(async (_ctx, next) => {
+      order.push('global:in');
+      await next();
+      order.push('global:out');
+    });
+    app.get(
+      '/',
+      async (_ctx, next) => {
+        order.push('route');
+        await next();
+      },
+      async (ctx) => {
+        await new Promise(setImmediate);
+        order.push('handler');
+        ctx.empty(204);
+      }
+    );
+
+    await request(app, 'GET', '/');
+    await new Promise(setImmediate);
+    assert.deepEqual(order, ['global:in', 'route', 'handler', 'global:out']);
+  });
+
+  it('wraps unmatched requests and match errors in global middleware', async () => {
+    const app = quietApp().use(seen);
+    app.get('/files/:name', (ctx) => ctx.empty(204));
+
+    const missing = await request(app, 'GET', '/nope');
+    assert.equal(missing.status, 404);
+    assert.equal(missing.header('X-Seen'), 'yes');
+
+    const malformed = await request(app, 'GET', '/files/%E0%A4%A');
+    assert.equal(malformed.status, 400);
+    assert.equal(malformed.header('X-Seen'), 'yes');
+  });
+
+  it('serves HEAD from the GET chain without a body', async () => {
+    const app = quietApp();
+    app.get('/', (ctx) => ctx.json({ ok: true }));
+
+    const res = await request(app, 'HEAD', '/');
+    assert.equal(res.status, 200);
+    assert.equal(res.body.length, 0);
+  });
+
+  it('ignores global middleware added after compilation', async () => {
+    const app = quietApp();
+    app.get('/', (ctx) => ctx.empty(204));
+    await request(app, 'GET', '/');
+
+    app.use(seen);
+    assert.equal((await request(app, 'GET', '/')).header('X-Seen'), undefined);
+  });
+});
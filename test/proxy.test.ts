@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { App } from '../src/core/app.js';
+import { compileTrust, normalizeAddress } from '../src/core/proxy.js';
+import type { TrustProxy } from '../src/core/proxy.js';
+import { request } from './helpers.js';
+
+interface Client {
+  ip: string;
+  ips: string[];
+  protocol: string;
+  hostname: string;
+}
+
+async function whoami(trustProxy: TrustProxy, remoteAddress: string, headers: Record<string, string>): Promise<Client> {
+  const app = new App({ logging: { enabled: false }, trustProxy });
+  app.get('/whoami', (ctx) =>
+    ctx.json({ ip: ctx.ip, ips: ctx.ips, protocol: ctx.protocol, hostname: ctx.hostname })
+  );
+  const res = await request(app, 'GET', '/whoami', { remoteAddress, headers });
+  return res.json() as Client;
+}
+
+const CHAIN = {
+  Host: 'internal:3000',
+  'X-Forwarded-For': '203.0.113.5, 10.0.0.2',
+  'X-Forwarded-Proto': 'https',
+  'X-Forwarded-Host': 'example.com',
+};
+
+describe('trusted proxies', () => {
+  it('ignores forwarding headers when no proxy is trusted', async () => {
+    assert.deepEqual(await whoami(false, '10.0.0.1', CHAIN), {
+      ip: '10.0.0.1',
+      ips: [],
+      protocol: 'http',
+      hostname: 'internal',
+    });
+  });
+
+  it('believes the whole chain with trustProxy: true', async () => {
+    assert.deepEqual(await whoami(true, '10.0.0.1', CHAIN), {
+      ip: '203.0.113.5',
+      ips: ['203.0.113.5', '10.0.0.2'],
+      protocol: 'https',
+      hostname: 'example.com',
+    });
+  });
+
+  it('stops at the first untrusted hop by hop count', async () => {
+    const result = await whoami(1, '10.0.0.1', CHAIN);
+    assert.deepEqual({ ip: result.ip, ips: result.ips }, { ip: '10.0.0.2', ips: ['10.0.0.2'] });
+  });
+
+  it('trusts addresses and CIDR ranges, with presets', async () => {
+    const trusted = await whoami('loopback, 10.0.0.0/8', '127.0.0.1', CHAIN);
+    assert.deepEqual(trusted.ips, ['203.0.113.5', '10.0.0.2']);
+
+    const spoofed = await whoami('loopback', '198.51.100.7', CHAIN);
+    assert.deepEqual(spoofed, { ip: '198.51.100.7', ips: [], protocol: 'http', hostname: 'internal' });
+  });
+
+  it('matches IPv4-mapped IPv6 peers, hex form included, and reports them as IPv4', async () => {
+    const dotted = await whoami('10.0.0.0/8', '::ffff:10.0.0.1', CHAIN);
+    assert.equal(dotted.ip, '203.0.113.5');
+
+    const hex = await whoami('10.0.0.0/8', '::ffff:a00:1', { 'X-Forwarded-For': '::ffff:cb00:7105' });
+    assert.deepEqual({ ip: hex.ip, ips: hex.ips }, { ip: '203.0.113.5', ips: ['203.0.113.5'] });
+
+    const untrusted = await whoami(false, '::ffff:a00:1', {});
+    assert.equal(untrusted.ip, '10.0.0.1');
+  });
+
+  it('prefers Forwarded over the X-Forwarded-* headers', async () => {
+    const result = await whoami(true, '10.0.0.1', {
+      ...CHAIN,
+      Forwarded: 'for="[2001:db8::1]:4711";proto=https;host=api.example.com, for=10.0.0.3',
+    });
+    assert.deepEqual(result, {
+      ip: '2001:db8::1',
+      ips: ['2001:db8::1', '10.0.0.3'],
+      protocol: 'https',
+      hostname: 'api.example.com',
+    });
+  });
+});
+
+describe('compileTrust / normalizeAddress', () => {
+  it('rejects malformed ranges up front', () => {
+    assert.throws(() => compileTrust('10.0.0.0/33'));
+    assert.throws(() => compileTrust('not-an-ip'));
+  });
+
+  it('unmaps IPv4-mapped addresses only', () => {
+    assert.equal(normalizeAddress('::ffff:a00:1'), '10.0.0.1');
+    assert.equal(normalizeAddress('::ffff:10.0.0.1'), '10.0.0.1');
+    assert.equal(normalizeAddress('2001:db8::1'), '2001:db8::1');
+  });
+});
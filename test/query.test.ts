@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseQuery } from '../src/core/query.js';
+
+describe('parseQuery', () => {
+  it('collects repeated keys into arrays', () => {
+    assert.deepEqual(parseQuery('a=1&a=2&b=x'), { a: ['1', '2'], b: 'x' });
+  });
+
+  it('decodes "+" and percent-encoding, keeping malformed sequences raw', () => {
+    assert.deepEqual(parseQuery('q=x+y%21&bad=%E0%A4%A'), { q: 'x y!', bad: '%E0%A4%A' });
+  });
+
+  it('handles empty values, missing values and empty pairs', () => {
+    assert.deepEqual(parseQuery('a=&b&&=c'), { a: '', b: '' });
+    assert.deepEqual(parseQuery(''), {});
+  });
+
+  it('keeps brackets in the key unless nested is on', () => {
+    assert.deepEqual(parseQuery('a[b]=1'), { 'a[b]': '1' });
+  });
+
+  it('parses nested objects and arrays', () => {
+    assert.deepEqual(parseQuery('user[name]=a&user[tags][]=x&user[tags][]=y', { nested: true }), {
+      user: { name: 'a', tags: ['x', 'y'] },
+    });
+  });
+
+  it('stops splitting keys past depth', () => {
+    assert.deepEqual(parseQuery('a[b][c]=1', { nested: true, depth: 1 }), { a: { b: { '[c]': '1' } } });
+  });
+
+  it('lets the first shape win on conflicts', () => {
+    assert.deepEqual(parseQuery('a=1&a[b]=2', { nested: true }), { a: '1' });
+  });
+
+  it('drops prototype-polluting keys at any depth', () => {
+    const flat = parseQuery('__proto__=1&constructor=2');
+    assert.deepEqual(flat, {});
+    const nested = parseQuery('a[__proto__][x]=1&__proto__[y]=2', { nested: true });
+    assert.deepEqual(nested, { a: {} });
+    assert.equal(({} as Record<string, unknown>).x, undefined);
+    assert.equal(({} as Record<string, unknown>).y, undefined);
+  });
+
+  it('ignores pairs past maxParams', () => {
+    assert.deepEqual(parseQuery('a=1&b=2&c=3', { maxParams: 2 }), { a: '1', b: '2' });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Router, canonicalPath } from '../src/core/router.js';
+import type { Handler } from '../src/core/router.js';
+
+const noop: Handler = () => {};
+
+function handler(): Handler {
+  return () => {};
+}
+
+describe('Router', () => {
+  it('matches static routes', () => {
+    const router = new Router();
+    const users = handler();
+    router.add('GET', '/users', users);
+
+    assert.equal(router.match('GET', '/users')?.fn, users);
+    assert.equal(router.match('POST', '/users'), null);
+    assert.equal(router.match('GET', '/nope'), null);
+  });
+
+  it('ignores the query string', () => {
+    const router = new Router();
+    router.add('GET', '/users', noop);
+    assert.ok(router.match('GET', '/users?page=2'));
+  });
+
+  it('extracts and decodes params', () => {
+    const router = new Router();
+    router.add('GET', '/users/:id/posts/:post', noop);
+
+    assert.deepEqual(router.match('GET', '/users/42/posts/a%20b')?.params, { id: '42', post: 'a b' });
+  });
+
+  it('rejects malformed percent-encoding with a 400', () => {
+    const router = new Router();
+    router.add('GET', '/users/:id', noop);
+    assert.throws(() => router.match('GET', '/users/%E0%A4%A'), { statusCode: 400 });
+  });
+
+  it('prefers static over param over wildcard', () => {
+    const router = new Router();
+    const special = handler();
+    const byId = handler();
+    const rest = handler();
+    router.add('GET', '/files/special', special);
+    router.add('GET', '/files/:id', byId);
+    router.add('GET', '/files/*path', rest);
+
+    assert.equal(router.match('GET', '/files/special')?.fn, special);
+    assert.equal(router.match('GET', '/files/7')?.fn, byId);
+    assert.equal(router.match('GET', '/files/a/b')?.fn, rest);
+    assert.deepEqual(router.match('GET', '/files/a/b')?.params, { path: 'a/b' });
+  });
+
+  it('backtracks out of a static segment', () => {
+    const router = new Router();
+    const nested = handler();
+    router.add('GET', '/files/special', noop);
+    router.add('GET', '/files/:id/x', nested);
+
+    assert.equal(router.match('GET', '/files/special/x')?.fn, nested);
+  });
+
+  it('coerces typed constraints and falls through when they fail', () => {
+    const router = new Router();
+    const byId = handler();
+    const bySlug = handler();
+    router.add('GET', '/items/:id<int>', byId);
+    router.add('GET', '/items/:slug', bySlug);
+
+    const numeric = router.match('GET', '/items/42');
+    assert.equal(numeric?.fn, byId);
+    assert.deepEqual(numeric?.params, { id: 42 });
+    assert.equal(router.match('GET', '/items/blue-mug')?.fn, bySlug);
+  });
+
+  it('supports inline regex and custom param types', () => {
+    const router = new Router();
+    router.paramType('hex', { pattern: /^[a-f\d]+$/i });
+    router.add('GET', '/orders/:ref(\\d{4}-\\d+)', noop);
+    router.add('GET', '/colors/:value<hex>', noop);
+
+    assert.ok(router.match('GET', '/orders/2024-17'));
+    assert.equal(router.match('GET', '/orders/17'), null);
+    assert.deepEqual(router.match('GET', '/colors/ff00aa')?.params, { value: 'ff00aa' });
+    assert.equal(router.match('GET', '/colors/zz'), null);
+  });
+
+  it('matches optional segments with and without them', () => {
+    const router = new Router();
+    router.add('GET', '/:lang?/docs', noop);
+
+    assert.ok(router.match('GET', '/docs'));
+    assert.deepEqual(router.match('GET', '/en/docs')?.params, { lang: 'en' });
+  });
+
+  it('throws on duplicate routes', () => {
+    const router = new Router();
+    router.add('GET', '/users/:id', noop);
+    assert.throws(() => router.add('GET', '/users/:id', noop));
+  });
+
+  it('prefers host-bound routes and captures host labels', () => {
+    const router = new Router();
+    const site = handler();
+    const fallback = handler();
+    router.add('GET', '/', site, null, { host: ':tenant.example.com' });
+    router.add('GET', '/', fallback);
+
+    const match = router.match('GET', '/', 'acme.example.com');
+    assert.equal(match?.fn, site);
+    assert.deepEqual(match?.params, { tenant: 'acme' });
+    assert.equal(router.match('GET', '/', 'other.org')?.fn, fallback);
+  });
+
+  it('selects versions and reports deprecation', () => {
+    const router = new Router({ defaultVersion: '2' });
+    const v1 = handler();
+    const v2 = handler();
+    router.add('GET', '/api/users', v1, null, { version: { version: '1', deprecated: true } });
+    router.add('GET', '/api/users', v2, null, { version: { version: '2' } });
+
+    assert.equal(router.match('GET', '/api/users')?.fn, v2);
+    const old = router.match('GET', '/api/users', undefined, '1');
+    assert.equal(old?.fn, v1);
+    assert.equal(old?.version, '1');
+    assert.notEqual(old?.deprecation, null);
+  });
+
+  it('removes and replaces routes', () => {
+    const router = new Router();
+    const replacement = handler();
+    router.add('GET', '/a/:id', noop);
+    router.add('GET', '/b', noop);
+
+    router.replace('GET', '/a/:id', replacement, null);
+    assert.equal(router.match('GET', '/a/1')?.fn, replacement);
+
+    assert.equal(router.remove('GET', '/b'), true);
+    assert.equal(router.remove('GET', '/b'), false);
+    assert.equal(router.match('GET', '/b'), null);
+  });
+
+  it('lists allowed methods for a path', () => {
+    const router = new Router();
+    router.add('GET', '/users/:id', noop);
+    router.add('DELETE', '/users/:id', noop);
+
+    assert.deepEqual(router.allowedMethods('/users/1').sort(), ['DELETE', 'GET']);
+  });
+
+  it('builds URLs from named routes', () => {
+    const router = new Router();
+    router.add('GET', '/users/:id/files/*path', noop);
+    router.name('users.file', '/users/:id/files/*path');
+
+    assert.equal(router.url('users.file', { id: 'a b', path: 'x/y.txt' }), '/users/a%20b/files/x/y.txt');
+    assert.equal(router.url('users.file', { id: 1, path: 'z' }, { page: 2 }), '/users/1/files/z?page=2');
+    assert.throws(() => router.url('missing'));
+  });
+});
+
+describe('canonicalPath', () => {
+  it('drops empty segments and the trailing slash', () => {
+    assert.equal(canonicalPath('//users///42/'), '/users/42');
+    assert.equal(canonicalPath('/'), '/');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { App } from '../src/core/app.js';
+import type { MiddlewareFn } from '../src/core/middleware.js';
+import { dispatch, request } from './helpers.js';
+
+function quietApp(): App {
+  return new App({ logging: { enabled: false } });
+}
+
+describe('runtime route changes', () => {
+  it('removes a route while running', async () => {
+    const app = quietApp();
+    app.get('/search', (ctx) => ctx.json({ ok: true }));
+    app.post('/search', (ctx) => ctx.empty(204));
+    assert.equal((await request(app, 'GET', '/search')).status, 200);
+
+    assert.equal(app.removeRoute('GET', '/search'), true);
+    assert.equal(app.removeRoute('GET', '/search'), false);
+    const res = await request(app, 'GET', '/search');
+    assert.equal(res.status, 405);
+    assert.equal(res.header('Allow'), 'POST, OPTIONS');
+  });
+
+  it('removes one version and keeps the others', async () => {
+    const app = quietApp();
+    app.version('1', (v1) => v1.get('/users', (ctx) => ctx.json({ version: 1 })));
+    app.version('2', (v2) => v2.get('/users', (ctx) => ctx.json({ version: 2 })));
+    await request(app, 'GET', '/users');
+
+    app.removeRoute('GET', '/users', { version: { version: '2' } });
+    assert.deepEqual((await request(app, 'GET', '/users')).json(), { version: 1 });
+  });
+
+  it('replaces the chain, keeping the name and the global middleware', async () => {
+    const app = quietApp();
+    app.use((ctx, next) => {
+      ctx.setHeader('X-Global', 'yes');
+      return next();
+    });
+    app.get('/search', (ctx) => ctx.json({ engine: 1 })).as('search');
+    await request(app, 'GET', '/search');
+
+    const tag: MiddlewareFn = (ctx, next) => {
+      ctx.setHeader('X-Route', 'v2');
+      return next();
+    };
+    app.replaceRoute('GET', '/search', [tag, (ctx) => ctx.json({ engine: 2 })]);
+
+    const res = await request(app, 'GET', '/search');
+    assert.deepEqual(res.json(), { engine: 2 });
+    assert.equal(res.header('X-Global'), 'yes');
+    assert.equal(res.header('X-Route'), 'v2');
+    assert.equal(app.url('search'), '/search');
+  });
+
+  it('lets in-flight requests finish on the old chain', async () => {
+    const app = quietApp();
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    app.get('/slow', async (ctx) => {
+      await gate;
+      ctx.json({ engine: 1 });
+    });
+
+    const inFlight = dispatch(app, 'GET', '/slow');
+    app.replaceRoute('GET', '/slow', (ctx) => ctx.json({ engine: 2 }));
+    release();
+    await inFlight.finished;
+
+    assert.deepEqual(inFlight.response.json(), { engine: 1 });
+    assert.deepEqual((await request(app, 'GET', '/slow')).json(), { engine: 2 });
+  });
+
+  it('throws when replacing a route that does not exist', () => {
+    assert.throws(() => quietApp().replaceRoute('GET', '/nope', (ctx) => ctx.empty(204)));
+  });
+
+  it('forwards removal and replacement from a mounted child', async () => {
+    const parent = quietApp();
+    const child = quietApp();
+    child.get('/a', (ctx) => ctx.json({ a: 1 }));
+    child.get('/b', (ctx) => ctx.json({ b: 1 }));
+    parent.mount('/child', child);
+    await request(parent, 'GET', '/child/a');
+
+    child.removeRoute('GET', '/a');
+    child.replaceRoute('GET', '/b', (ctx) => ctx.json({ b: 2 }));
+
+    assert.equal((await request(parent, 'GET', '/child/a')).status, 404);
+    assert.deepEqual((await request(parent, 'GET', '/child/b')).json(), { b: 2 });
+  });
+});
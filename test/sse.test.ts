@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { App } from '../src/core/app.js';
+import { formatSseEvent } from '../src/core/sse.js';
+import type { SseStream } from '../src/core/sse.js';
+import { dispatch, request } from './helpers.js';
+
+function tick(): Promise<void> {
+  return new Promise(setImmediate);
+}
+
+describe('formatSseEvent', () => {
+  it('writes fields in order and splits data per line', () => {
+    assert.equal(
+      formatSseEvent({ event: 'tick', data: 'a\nb\r\nc', id: 1, retry: 500 }),
+      'event: tick\nid: 1\nretry: 500\ndata: a\ndata: b\ndata: c\n\n'
+    );
+  });
+
+  it('sends non-string data as JSON', () => {
+    assert.equal(formatSseEvent({ data: { n: 1 } }), 'data: {"n":1}\n\n');
+  });
+
+  it('rejects newlines in single-line fields and invalid retries', () => {
+    assert.throws(() => formatSseEvent({ event: 'a\nb' }), /Invalid SSE event/);
+    assert.throws(() => formatSseEvent({ id: 'a\rb' }), /Invalid SSE id/);
+    assert.throws(() => formatSseEvent({ retry: -1 }), /Invalid SSE retry/);
+  });
+});
+
+describe('ctx.sse()', () => {
+  it('writes event-stream headers, the retry frame and each event', async () => {
+    const app = new App({ logging: { enabled: false } });
+    app.get('/events', async (ctx) => {
+      const sse = ctx.sse({ retry: 3000, heartbeat: 0 });
+      await sse.send({ event: 'greet', data: 'hi', id: 1 });
+      await sse.send('bye');
+      sse.close();
+    });
+
+    const res = await request(app, 'GET', '/events');
+    assert.equal(res.header('Content-Type'), 'text/event-stream; charset=utf-8');
+    assert.equal(res.header('Cache-Control'), 'no-cache');
+    assert.equal(res.text(), 'retry: 3000\n\nevent: greet\nid: 1\ndata: hi\n\ndata: bye\n\n');
+  });
+
+  it('exposes Last-Event-ID from a reconnecting client', async () => {
+    const app = new App({ logging: { enabled: false } });
+    app.get('/events', (ctx) => {
+      const sse = ctx.sse({ heartbeat: 0 });
+      sse.send(`resume after ${sse.lastEventId}`);
+      sse.close();
+    });
+
+    const res = await request(app, 'GET', '/events', { headers: { 'Last-Event-ID': '41' } });
+    assert.match(res.text(), /data: resume after 41\n\n$/);
+  });
+
+  it('closes the stream and runs onClose hooks when the client disconnects', async () => {
+    const app = new App({ logging: { enabled: false } });
+    let stream!: SseStream;
+    let hooks = 0;
+    app.get('/events', async (ctx) => {
+      stream = ctx.sse({ heartbeat: 0 });
+      stream.onClose(() => hooks++);
+      await stream.closed;
+    });
+
+    const inFlight = dispatch(app, 'GET', '/events');
+    await tick();
+    await stream.send('first');
+    inFlight.abort();
+    await stream.closed;
+
+    assert.equal(stream.isClosed, true);
+    assert.equal(hooks, 1);
+    assert.equal(await stream.send('late'), false);
+    assert.equal(inFlight.response.writes.map(String).join(''), ':\n\ndata: first\n\n');
+  });
+
+  it('sends comment heartbeats while idle', async () => {
+    const app = new App({ logging: { enabled: false } });
+    app.get('/events', async (ctx) => {
+      const sse = ctx.sse({ heartbeat: 5 });
+      setTimeout(() => sse.close(), 30);
+      await sse.closed;
+    });
+
+    const res = await request(app, 'GET', '/events');
+    assert.ok(res.writes.length > 2);
+    assert.ok(res.writes.every((chunk) => String(chunk) === ':\n\n'));
+  });
+
+  it('answers HEAD with the headers only', async () => {
+    const app = new App({ logging: { enabled: false } });
+    app.get('/events', async (ctx) => {
+      const sse = ctx.sse();
+      assert.equal(sse.isClosed, true);
+      await sse.closed;
+    });
+
+    const res = await request(app, 'HEAD', '/events');
+    assert.equal(res.header('Content-Type'), 'text/event-stream; charset=utf-8');
+    assert.equal(res.body.length, 0);
+  });
+});
@@ -0,0 +1,136 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { App } from '../src/core/app.js';
+import { serveStatic } from '../src/app/middleware/static.js';
+import type { ServeStaticOptions } from '../src/app/middleware/static.js';
+import { request } from './helpers.js';
+
+let dir: string;
+let root: string;
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'blazy-static-'));
+  root = join(dir, 'public');
+  mkdirSync(join(root, 'docs'), { recursive: true });
+  writeFileSync(join(dir, 'secret.txt'), 'outside the root');
+  writeFileSync(join(root, 'hello.txt'), '0123456789');
+  writeFileSync(join(root, '.env'), 'TOKEN=1');
+  writeFileSync(join(root, 'docs', 'index.html'), '<h1>docs</h1>');
+  writeFileSync(join(root, 'app.js'), 'plain');
+  writeFileSync(join(root, 'app.js.br'), 'brotli');
+  writeFileSync(join(root, 'app.js.gz'), 'gzip');
+});
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function staticApp(opts?: ServeStaticOptions): App {
+  const app = new App({ logging: { enabled: false } });
+  app.use(serveStatic(root, opts));
+  return app;
+}
+
+describe('serveStatic', () => {
+  it('serves a file with its type, validators and caching headers', async () => {
+    const res = await request(staticApp(), 'GET', '/hello.txt');
+    assert.equal(res.status, 200);
+    assert.equal(res.text(), '0123456789');
+    assert.equal(res.header('Content-Type'), 'text/plain; charset=utf-8');
+    assert.equal(res.header('Accept-Ranges'), 'bytes');
+    assert.equal(res.header('Cache-Control'), 'public, max-age=0');
+    assert.match(res.header('ETag') ?? '', /^"a-[0-9a-f]+"$/);
+    assert.ok(res.header('Last-Modified'));
+  });
+
+  it('answers 304 for a matching If-None-Match', async () => {
+    const app = staticApp();
+    const etag = (await request(app, 'GET', '/hello.txt')).header('ETag')!;
+    const res = await request(app, 'GET', '/hello.txt', { headers: { 'If-None-Match': etag } });
+    assert.equal(res.status, 304);
+    assert.equal(res.body.length, 0);
+  });
+
+  it('serves single byte ranges and 416 for unsatisfiable ones', async () => {
+    const app = staticApp();
+
+    const range = await request(app, 'GET', '/hello.txt', { headers: { Range: 'bytes=2-5' } });
+    assert.equal(range.status, 206);
+    assert.equal(range.text(), '2345');
+    assert.equal(range.header('Content-Range'), 'bytes 2-5/10');
+
+    const suffix = await request(app, 'GET', '/hello.txt', { headers: { Range: 'bytes=-3' } });
+    assert.equal(suffix.text(), '789');
+
+    const beyond = await request(app, 'GET', '/hello.txt', { headers: { Range: 'bytes=10-' } });
+    assert.equal(beyond.status, 416);
+    assert.equal(beyond.header('Content-Range'), 'bytes */10');
+
+    const multi = await request(app, 'GET', '/hello.txt', { headers: { Range: 'bytes=0-1,4-5' } });
+    assert.equal(multi.status, 200);
+    assert.equal(multi.text(), '0123456789');
+  });
+
+  it('ignores a Range whose If-Range no longer matches', async () => {
+    const res = await request(staticApp(), 'GET', '/hello.txt', {
+      headers: { Range: 'bytes=0-1', 'If-Range': '"stale"' },
+    });
+    assert.equal(res.status, 200);
+    assert.equal(res.text(), '0123456789');
+  });
+
+  it('refuses paths that escape the root and hides dotfiles', async () => {
+    const app = staticApp();
+    const traversal = await request(app, 'GET', '/..%2fsecret.txt');
+    assert.equal(traversal.status, 403);
+    assert.match(traversal.text(), /PATH_TRAVERSAL/);
+
+    assert.equal((await request(app, 'GET', '/%2e%2e/secret.txt')).status, 403);
+    assert.equal((await request(app, 'GET', '/.env')).status, 404);
+    assert.equal((await request(app, 'GET', '/hello.txt%00')).status, 400);
+  });
+
+  it('redirects a directory to its slash form and serves its index', async () => {
+    const app = staticApp();
+    const redirect = await request(app, 'GET', '/docs');
+    assert.equal(redirect.status, 301);
+    assert.equal(redirect.header('Location'), '/docs/');
+    assert.equal((await request(app, 'GET', '/docs/')).text(), '<h1>docs</h1>');
+  });
+
+  it('picks the precompressed sibling by q-value, with one Vary', async () => {
+    const app = staticApp({ precompressed: true });
+
+    const br = await request(app, 'GET', '/app.js', { headers: { 'Accept-Encoding': 'gzip, br' } });
+    assert.equal(br.text(), 'brotli');
+    assert.equal(br.header('Content-Encoding'), 'br');
+    assert.equal(br.header('Content-Type'), 'text/javascript; charset=utf-8');
+    assert.deepEqual(br.headerValues('Vary'), ['Accept-Encoding']);
+
+    const gzip = await request(app, 'GET', '/app.js', { headers: { 'Accept-Encoding': 'br;q=0.5, gzip' } });
+    assert.equal(gzip.text(), 'gzip');
+    assert.equal(gzip.header('Content-Encoding'), 'gzip');
+
+    const plain = await request(app, 'GET', '/app.js', { headers: { 'Accept-Encoding': 'br;q=0, identity' } });
+    assert.equal(plain.text(), 'plain');
+    assert.equal(plain.header('Content-Encoding'), undefined);
+    assert.deepEqual(plain.headerValues('Vary'), ['Accept-Encoding']);
+  });
+
+  it('serves the plain file for a range even when a precompressed one exists', async () => {
+    const res = await request(staticApp({ precompressed: true }), 'GET', '/app.js', {
+      headers: { 'Accept-Encoding': 'br', Range: 'bytes=0-1' },
+    });
+    assert.equal(res.status, 206);
+    assert.equal(res.text(), 'pl');
+    assert.equal(res.header('Content-Encoding'), undefined);
+  });
+
+  it('falls through to the router on a miss', async () => {
+    const app = staticApp();
+    app.get('/api', (ctx) => ctx.json({ api: true }));
+    assert.deepEqual((await request(app, 'GET', '/api')).json(), { api: true });
+    assert.equal((await request(app, 'GET', '/missing.txt')).status, 404);
+  });
+});
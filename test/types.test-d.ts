@@ -0,0 +1,117 @@
+/**
+ * Type-level tests — checked by `npm run lint`, never executed
+ * Each expectType<Equal<...>>() fails the type-check when inference drifts
+ */
+
+import type { App } from '../src/core/app.js';
+import type { Context, DefaultState } from '../src/core/context.js';
+import type { RouteGroup } from '../src/core/group.js';
+import type { MiddlewareFn, StateMiddleware } from '../src/core/middleware.js';
+import type { ParamValue, PathParams } from '../src/core/router.js';
+import type { auth } from '../src/app/middleware/auth.js';
+import type { requestId } from '../src/app/middleware/request-id.js';
+
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2 ? true : false;
+declare function expectType<T extends true>(): void;
+
+interface User {
+  id: number;
+  name: string;
+}
+
+declare const app: App;
+declare const withAuth: typeof auth<User>;
+declare const withRequestId: typeof requestId;
+declare const tenant: StateMiddleware<{ tenant: string }>;
+declare const plain: MiddlewareFn;
+
+// -- State --
+
+// Undeclared state: any key, unknown value
+app.get('/', (ctx) => {
+  expectType<Equal<typeof ctx.state, DefaultState>>();
+  // @ts-expect-error — unknown until a middleware declares it
+  ctx.state.user.name;
+});
+
+// app.use() carries declared state to every later route
+const authed = app.use(withAuth({ verify: () => null })).use(withRequestId());
+authed.get('/me', (ctx) => {
+  expectType<Equal<typeof ctx.state.user, User>>();
+  expectType<Equal<typeof ctx.state.requestId, string>>();
+});
+
+// Route middleware types the handler after it, in order; plain middleware adds nothing
+app.get('/t', plain, tenant, (ctx) => {
+  expectType<Equal<typeof ctx.state.tenant, string>>();
+  // @ts-expect-error — not declared on this route
+  ctx.state.user.name;
+});
+
+// Group middleware and group.use() type the group's routes
+app.group('/admin', withAuth({ verify: () => null }), (admin) => {
+  admin.get('/', (ctx) => {
+    expectType<Equal<typeof ctx.state.user, User>>();
+  });
+  admin.use(tenant).get('/t', (ctx) => {
+    expectType<Equal<typeof ctx.state.user, User>>();
+    expectType<Equal<typeof ctx.state.tenant, string>>();
+  });
+});
+
+// Declared state survives host and version groups
+authed.host(':sub.example.com', (site) => {
+  site.version('2', (v2) => {
+    v2.get('/', (ctx) => {
+      expectType<Equal<typeof ctx.state.user, User>>();
+    });
+  });
+});
+
+// -- Params --
+
+expectType<Equal<PathParams<'/users/:id'>, Record<string, string>>>();
+expectType<Equal<PathParams<'/users/:id<int>'>, Record<string, ParamValue>>>();
+expectType<Equal<PathParams<'/posts', '/users/:id<int>'>, Record<string, ParamValue>>>();
+expectType<Equal<PathParams<string>, Record<string, ParamValue>>>();
+expectType<Equal<PathParams<'/posts', string>, Record<string, ParamValue>>>();
+
+app.get('/users/:id', (ctx) => {
+  expectType<Equal<typeof ctx.params, Record<string, string> | null>>();
+});
+
+app.get('/items/:id<int>', (ctx) => {
+  expectType<Equal<typeof ctx.params, Record<string, ParamValue> | null>>();
+});
+
+// A group prefix constraint widens the group's routes, nested ones included
+app.group('/users/:id<int>', (users) => {
+  users.get('/posts', (ctx) => {
+    expectType<Equal<typeof ctx.params, Record<string, ParamValue> | null>>();
+  });
+});
+app.group('/a', (a) => {
+  a.group('/:n<float>', (n) => {
+    n.get('/', (ctx) => {
+      expectType<Equal<typeof ctx.params, Record<string, ParamValue> | null>>();
+    });
+  });
+  a.get('/:slug', (ctx) => {
+    expectType<Equal<typeof ctx.params, Record<string, string> | null>>();
+  });
+});
+
+// Handlers declared with string params fit unconstrained routes only
+declare const stringHandler: (ctx: Context<DefaultState, Record<string, string>>) => void;
+app.get('/x/:id', stringHandler);
+// @ts-expect-error — :id<int> delivers a number
+app.get('/x/:id<int>', stringHandler);
+
+// Standalone group callbacks (unknown prefix) still fit any group
+declare const standalone: (group: RouteGroup) => void;
+app.group('/s', standalone);
+
+// -- Body --
+
+declare const typedCtx: Context<DefaultState, Record<string, string>, User>;
+expectType<Equal<typeof typedCtx.body, User | null>>();
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { App } from '../src/core/app.js';
+import type { ConfigOverrides } from '../src/core/config.js';
+import { request } from './helpers.js';
+
+function versionedApp(versioning: ConfigOverrides['versioning'] = {}): App {
+  const app = new App({ logging: { enabled: false }, versioning });
+  app.version({ version: '1', deprecated: true, sunset: '2027-01-01' }, (v1) => {
+    v1.get('/api/users', (ctx) => ctx.json({ version: 1 }));
+  });
+  app.version('2', (v2) => {
+    v2.get('/api/users', (ctx) => ctx.json({ version: 2 }));
+  });
+  app.get('/health', (ctx) => ctx.json({ ok: true }));
+  return app;
+}
+
+describe('API versioning', () => {
+  it('serves the latest version when the request names none', async () => {
+    assert.deepEqual((await request(versionedApp(), 'GET', '/api/users')).json(), { version: 2 });
+  });
+
+  it('serves versioning.default when the request names none', async () => {
+    const app = versionedApp({ default: '1' });
+    assert.deepEqual((await request(app, 'GET', '/api/users')).json(), { version: 1 });
+  });
+
+  it('reads the Accept-Version header', async () => {
+    const res = await request(versionedApp(), 'GET', '/api/users', { headers: { 'Accept-Version': '1' } });
+    assert.deepEqual(res.json(), { version: 1 });
+  });
+
+  it('reads a vendor media type', async () => {
+    const res = await request(versionedApp(), 'GET', '/api/users', {
+      headers: { Accept: 'application/vnd.blazy.v1+json' },
+    });
+    assert.deepEqual(res.json(), { version: 1 });
+  });
+
+  it('reads a /v2 path prefix when versioning.path is on', async () => {
+    const app = versionedApp({ path: true });
+    assert.deepEqual((await request(app, 'GET', '/v1/api/users')).json(), { version: 1 });
+    assert.deepEqual((await request(app, 'GET', '/v2/api/users')).json(), { version: 2 });
+  });
+
+  it('answers 400 for an unknown version', async () => {
+    const res = await request(versionedApp(), 'GET', '/api/users', { headers: { 'Accept-Version': '9' } });
+    assert.equal(res.status, 400);
+  });
+
+  it('sends Deprecation and Sunset for deprecated versions only', async () => {
+    const old = await request(versionedApp(), 'GET', '/api/users', { headers: { 'Accept-Version': '1' } });
+    assert.ok(old.header('Deprecation'));
+    assert.ok(old.header('Sunset'));
+
+    const current = await request(versionedApp(), 'GET', '/api/users');
+    assert.equal(current.header('Deprecation'), undefined);
+  });
+
+  it('varies versioned responses on the version headers, once', async () => {
+    const res = await request(versionedApp(), 'GET', '/api/users');
+    assert.deepEqual(res.headerValues('Vary'), ['accept-version, Accept']);
+
+    const noVendor = await request(versionedApp({ vendor: null }), 'GET', '/api/users');
+    assert.deepEqual(noVendor.headerValues('Vary'), ['accept-version']);
+  });
+
+  it('leaves unversioned routes alone', async () => {
+    const res = await request(versionedApp(), 'GET', '/health', { headers: { 'Accept-Version': '1' } });
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.headerValues('Vary'), []);
+  });
+});